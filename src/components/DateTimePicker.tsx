@@ -12,9 +12,11 @@ import {
 interface DateTimePickerProps {
   value: string // ISO datetime string (YYYY-MM-DDTHH:mm)
   onChange: (datetime: string) => void
+  // The time is a wall-clock time at the dive site, not the browser's zone
+  timeZoneLabel?: string
 }
 
-export function DateTimePicker({ value, onChange }: DateTimePickerProps) {
+export function DateTimePicker({ value, onChange, timeZoneLabel }: DateTimePickerProps) {
   const [open, setOpen] = React.useState(false)
 
   // Helper to convert YYYY-MM-DD to Date in local timezone
@@ -109,8 +111,13 @@ export function DateTimePicker({ value, onChange }: DateTimePickerProps) {
         value={selectedTime}
         onChange={handleTimeChange}
         placeholder="12:00"
+        aria-label={`Dive time (site local time${timeZoneLabel ? `, ${timeZoneLabel}` : ''})`}
+        title={`Site local time${timeZoneLabel ? ` (${timeZoneLabel})` : ''}`}
         className="bg-background text-sm md:text-base min-h-[44px] md:min-h-[40px] flex-1 appearance-none [&::-webkit-calendar-picker-indicator]:hidden [&::-webkit-calendar-picker-indicator]:appearance-none"
       />
+      <span className="self-center text-xs text-muted-foreground whitespace-nowrap">
+        {timeZoneLabel ?? 'site local'}
+      </span>
     </div>
   )
 }
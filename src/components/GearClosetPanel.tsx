@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import { useGearCloset } from './GearClosetProvider'
+import type { AccessoryKind } from '@/lib/accessories'
+import { ACCESSORY_KINDS, ACCESSORY_LABELS } from '@/lib/accessories'
+import { DEFAULT_LABELS, SUIT_TYPES } from '@/lib/suit-rules'
+
+const THICKNESS_OPTIONS_MM = [3, 5, 7]
+
+/**
+ * Editor for the exposure gear a user owns
+ */
+export function GearClosetPanel() {
+  const { closet, setCloset, syncId, syncError, syncAvailable, linkSync } = useGearCloset()
+  const [linkId, setLinkId] = useState('')
+
+  const ownedCount = closet.suits.length + closet.accessories.length
+
+  const toggleSuit = (type: (typeof SUIT_TYPES)[number], owned: boolean) =>
+    setCloset({
+      ...closet,
+      suits: owned
+        ? [...closet.suits, type]
+        : closet.suits.filter((s) => s !== type),
+    })
+
+  // One entry per kind: the thickest one owned covers the thinner needs
+  const setAccessory = (kind: AccessoryKind, value: string) =>
+    setCloset({
+      ...closet,
+      accessories: [
+        ...closet.accessories.filter((a) => a.kind !== kind),
+        ...(value === ''
+          ? []
+          : [{ kind, thicknessMm: value === 'own' ? undefined : Number(value) }]),
+      ],
+    })
+
+  return (
+    <details className="rounded-lg border">
+      <summary className="cursor-pointer px-4 py-2 text-sm font-semibold">
+        My gear closet{ownedCount > 0 && ` (${ownedCount})`}
+      </summary>
+      <div className="px-4 pb-4 space-y-4 text-sm">
+        <fieldset>
+          <legend className="font-medium mb-2">Suits I own</legend>
+          <div className="grid grid-cols-2 gap-1">
+            {SUIT_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={closet.suits.includes(type)}
+                  onChange={(e) => toggleSuit(type, e.target.checked)}
+                />
+                {DEFAULT_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset>
+          <legend className="font-medium mb-2">Accessories I own</legend>
+          <div className="space-y-1">
+            {ACCESSORY_KINDS.map((kind) => {
+              const owned = closet.accessories.find((a) => a.kind === kind)
+              return (
+                <label key={kind} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="capitalize">{ACCESSORY_LABELS[kind]}</span>
+                  <select
+                    value={owned ? String(owned.thicknessMm ?? 'own') : ''}
+                    onChange={(e) => setAccessory(kind, e.target.value)}
+                    className="rounded-md border bg-background px-2 py-1"
+                  >
+                    <option value="">None</option>
+                    {kind === 'rash-guard' ? (
+                      <option value="own">Own one</option>
+                    ) : (
+                      THICKNESS_OPTIONS_MM.map((mm) => (
+                        <option key={mm} value={mm}>
+                          {mm}mm
+                        </option>
+                      ))
+                    )}
+                  </select>
+                </label>
+              )
+            })}
+          </div>
+        </fieldset>
+
+        <div className="space-y-2 text-xs">
+          {/* Only offered when the server stores closets (GEAR_CLOSET_DIR) */}
+          {(syncAvailable || syncId !== null) && (
+            <>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={syncId !== null}
+                  onChange={(e) => linkSync(e.target.checked ? crypto.randomUUID() : null)}
+                />
+                Also save on the server
+              </label>
+              {syncId ? (
+                <p className="text-muted-foreground break-all">
+                  Closet id: {syncId}. Enter it in another browser to use the same closet.
+                </p>
+              ) : (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    if (linkId.trim()) linkSync(linkId.trim())
+                  }}
+                >
+                  <input
+                    value={linkId}
+                    onChange={(e) => setLinkId(e.target.value)}
+                    placeholder="Closet id from another browser"
+                    aria-label="Closet id from another browser"
+                    className="flex-1 rounded-md border bg-background px-2 py-1"
+                  />
+                  <button type="submit" className="rounded-md border px-2 py-1 hover:bg-accent">
+                    Link
+                  </button>
+                </form>
+              )}
+            </>
+          )}
+          {syncError && <p className="text-destructive">{syncError}</p>}
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,206 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { z } from 'zod'
+import type { GearCloset } from '@/lib/closet'
+import { EMPTY_CLOSET, gearClosetSchema } from '@/lib/closet'
+
+type GearClosetProviderProps = {
+  children: React.ReactNode
+  storageKey?: string
+}
+
+type GearClosetProviderState = {
+  closet: GearCloset
+  setCloset: (closet: GearCloset) => void
+  // Server-side copy; null when the closet lives in this browser only
+  syncId: string | null
+  syncError: string | null
+  // Whether the server stores closets (GEAR_CLOSET_DIR); false until checked
+  syncAvailable: boolean
+  // A new id starts syncing, an existing one (from another browser) loads that closet, null stops
+  // The id is only kept once the server has accepted it
+  linkSync: (syncId: string | null) => void
+}
+
+const initialState: GearClosetProviderState = {
+  closet: EMPTY_CLOSET,
+  setCloset: () => null,
+  syncId: null,
+  syncError: null,
+  syncAvailable: false,
+  linkSync: () => null,
+}
+
+const GearClosetProviderContext = createContext<GearClosetProviderState>(initialState)
+
+const storedSchema = gearClosetSchema.extend({
+  syncId: z.uuid().optional(),
+})
+
+function readStored(storageKey: string) {
+  try {
+    return storedSchema.safeParse(JSON.parse(localStorage.getItem(storageKey) ?? 'null'))
+  } catch {
+    return null
+  }
+}
+
+// The server has no GEAR_CLOSET_DIR: syncing can't work, so drop the sync id
+class SyncDisabledError extends Error {
+  constructor() {
+    super('Saving closets on the server is not enabled here; your closet is kept in this browser only')
+    this.name = 'SyncDisabledError'
+  }
+}
+
+async function fetchSyncAvailable(): Promise<boolean> {
+  const response = await fetch('/api/closet')
+  if (!response.ok) return false
+  const data = await response.json().catch(() => ({}))
+  return data.enabled === true
+}
+
+async function fetchCloset(syncId: string): Promise<GearCloset | null> {
+  const response = await fetch(`/api/closet?id=${syncId}`)
+  if (response.status === 404) {
+    const errorData = await response.json().catch(() => ({}))
+    if (errorData.code === 'NOT_FOUND') return null
+    if (errorData.code === 'DISABLED') throw new SyncDisabledError()
+  }
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to load gear closet')
+  }
+  const remote = gearClosetSchema.safeParse((await response.json()).closet)
+  return remote.success ? remote.data : null
+}
+
+async function pushCloset(syncId: string, closet: GearCloset): Promise<void> {
+  const response = await fetch(`/api/closet?id=${syncId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(closet),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    if (errorData.code === 'DISABLED') throw new SyncDisabledError()
+    throw new Error(errorData.error || 'Failed to save gear closet')
+  }
+}
+
+function writeStored(storageKey: string, closet: GearCloset, syncId: string | null) {
+  localStorage.setItem(
+    storageKey,
+    JSON.stringify(syncId ? { ...closet, syncId } : closet),
+  )
+}
+
+export function GearClosetProvider({
+  children,
+  storageKey = 'dive-intel-gear-closet',
+}: GearClosetProviderProps) {
+  // Always initialize empty to match server render
+  const [closet, setClosetState] = useState<GearCloset>(EMPTY_CLOSET)
+  const [syncId, setSyncId] = useState<string | null>(null)
+  const [syncError, setSyncError] = useState<string | null>(null)
+  const [syncAvailable, setSyncAvailable] = useState(false)
+
+  // Back to browser-only storage after the server turned out not to store closets
+  const dropSync = useCallback((current: GearCloset, err: SyncDisabledError) => {
+    setSyncAvailable(false)
+    setSyncId(null)
+    setSyncError(err.message)
+    writeStored(storageKey, current, null)
+  }, [storageKey])
+
+  // After hydration: stored closet, then the server copy when synced
+  useEffect(() => {
+    fetchSyncAvailable()
+      .then(setSyncAvailable)
+      .catch(() => setSyncAvailable(false))
+
+    const stored = readStored(storageKey)
+    if (!stored?.success) return
+    const { syncId: storedSyncId, ...storedCloset } = stored.data
+    setClosetState(storedCloset)
+    if (!storedSyncId) return
+
+    setSyncId(storedSyncId)
+    fetchCloset(storedSyncId)
+      .then((remote) => {
+        if (remote) setClosetState(remote)
+      })
+      .catch((err: unknown) => {
+        if (err instanceof SyncDisabledError) {
+          dropSync(storedCloset, err)
+          return
+        }
+        console.error('Error loading gear closet:', err)
+        setSyncError(err instanceof Error ? err.message : 'Failed to load gear closet')
+      })
+  }, [storageKey, dropSync])
+
+  const setCloset = useCallback((next: GearCloset) => {
+    setClosetState(next)
+    writeStored(storageKey, next, syncId)
+    if (!syncId) return
+    pushCloset(syncId, next)
+      .then(() => setSyncError(null))
+      .catch((err: unknown) => {
+        if (err instanceof SyncDisabledError) {
+          dropSync(next, err)
+          return
+        }
+        console.error('Error saving gear closet:', err)
+        setSyncError(err instanceof Error ? err.message : 'Failed to save gear closet')
+      })
+  }, [storageKey, syncId, dropSync])
+
+  const linkSync = useCallback((nextSyncId: string | null) => {
+    setSyncError(null)
+    if (!nextSyncId) {
+      setSyncId(null)
+      writeStored(storageKey, closet, null)
+      return
+    }
+
+    // Prefer a closet already saved under the id; otherwise upload this one
+    // Only keep the id once the server has answered for it
+    fetchCloset(nextSyncId)
+      .then(async (remote) => {
+        if (!remote) await pushCloset(nextSyncId, closet)
+        const linked = remote ?? closet
+        setClosetState(linked)
+        setSyncId(nextSyncId)
+        writeStored(storageKey, linked, nextSyncId)
+      })
+      .catch((err: unknown) => {
+        if (err instanceof SyncDisabledError) {
+          dropSync(closet, err)
+          return
+        }
+        console.error('Error linking gear closet:', err)
+        setSyncError(err instanceof Error ? err.message : 'Failed to link gear closet')
+      })
+  }, [storageKey, closet, dropSync])
+
+  const value = useMemo(() => ({
+    closet,
+    setCloset,
+    syncId,
+    syncError,
+    syncAvailable,
+    linkSync,
+  }), [closet, setCloset, syncId, syncError, syncAvailable, linkSync])
+
+  return (
+    <GearClosetProviderContext.Provider value={value}>
+      {children}
+    </GearClosetProviderContext.Provider>
+  )
+}
+
+export const useGearCloset = () => {
+  const context = useContext(GearClosetProviderContext)
+
+  return context
+}
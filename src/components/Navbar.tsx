@@ -3,6 +3,7 @@ import { useState } from 'react'
 import { Home, Info, MapPin, Menu, ShoppingBag } from 'lucide-react'
 import { useNavbarContent } from './NavbarContext'
 import { ThemeToggle } from './ThemeToggle'
+import { UnitToggle } from './UnitToggle'
 import { Button } from '@/components/ui/button'
 import {
   Sheet,
@@ -78,6 +79,10 @@ export default function Navbar() {
                   <span className="text-sm font-medium">Theme</span>
                   <ThemeToggle />
                 </div>
+                <div className="flex items-center gap-2 px-3 mt-2">
+                  <span className="text-sm font-medium">Units</span>
+                  <UnitToggle />
+                </div>
               </div>
             </nav>
           </SheetContent>
@@ -114,8 +119,9 @@ export default function Navbar() {
             {/* SearchBar - show at sm+ (640px and above) */}
             <div className="hidden sm:flex sm:flex-1 sm:mx-4 md:mx-6">{navbarContent}</div>
 
-            {/* Theme Toggle */}
-            <div className="hidden sm:block">
+            {/* Unit and Theme Toggles */}
+            <div className="hidden sm:flex items-center">
+              <UnitToggle />
               <ThemeToggle />
             </div>
           </>
@@ -141,8 +147,9 @@ export default function Navbar() {
               </NavigationMenuList>
             </NavigationMenu>
 
-            {/* Right: Theme Toggle */}
-            <div className="ml-auto">
+            {/* Right: Unit and Theme Toggles */}
+            <div className="ml-auto flex items-center">
+              <UnitToggle />
               <ThemeToggle />
             </div>
           </div>
@@ -0,0 +1,157 @@
+import { usePrefs } from './PrefsProvider'
+import type { PersonalPrefs } from '@/lib/prefs'
+import { personalPrefsSchema } from '@/lib/prefs'
+
+type NumberPref = 'diveMinutes' | 'divesPerDay' | 'surfaceIntervalMinutes' | 'consecutiveDays'
+
+const NUMBER_FIELDS: Array<{ key: NumberPref; label: string; min: number; max: number; placeholder: string }> = [
+  { key: 'diveMinutes', label: 'Dive length (min)', min: 1, max: 600, placeholder: '45' },
+  { key: 'divesPerDay', label: 'Dives per day', min: 1, max: 8, placeholder: '1' },
+  { key: 'surfaceIntervalMinutes', label: 'Surface interval (min)', min: 0, max: 720, placeholder: '60' },
+  { key: 'consecutiveDays', label: 'Days in a row', min: 1, max: 60, placeholder: '1' },
+]
+
+const BODY_COMPOSITION_LABELS: Record<NonNullable<PersonalPrefs['bodyComposition']>, string> = {
+  lean: 'Lean',
+  average: 'Average',
+  'high-fat': 'Higher body fat',
+}
+
+const SEX_LABELS: Record<NonNullable<PersonalPrefs['sex']>, string> = {
+  female: 'Female',
+  male: 'Male',
+}
+
+const EXERTION_LABELS: Record<NonNullable<PersonalPrefs['exertion']>, string> = {
+  low: 'Low (drift, photography)',
+  moderate: 'Moderate',
+  high: 'High (currents, hunting)',
+}
+
+/**
+ * Editor for the personal preferences sent with every suit recommendation
+ * Unset fields fall back to the defaults in comfort.ts
+ */
+export function PreferencesPanel() {
+  const { prefs, setPrefs, isShared, saveSharedPrefs, discardSharedPrefs } = usePrefs()
+
+  const setCount = Object.keys(prefs).length
+
+  // Drop the key rather than storing undefined, so the URL and cache key stay minimal
+  const update = <TKey extends keyof PersonalPrefs>(key: TKey, value: PersonalPrefs[TKey]) => {
+    const { [key]: _previous, ...rest } = prefs
+    const next = personalPrefsSchema.safeParse(value === undefined ? rest : { ...rest, [key]: value })
+    if (next.success) setPrefs(next.data)
+  }
+
+  const numberValue = (raw: string) => (raw === '' ? undefined : Number(raw))
+
+  return (
+    <details className="rounded-lg border">
+      <summary className="cursor-pointer px-4 py-2 text-sm font-semibold">
+        My preferences{setCount > 0 && ` (${setCount} set)`}
+      </summary>
+      <div className="px-4 pb-4 space-y-2 text-sm">
+        {isShared && (
+          <div className="space-y-1 rounded-md bg-muted px-2 py-1.5 text-xs">
+            <p>Using preferences from a shared link. Your own are unchanged.</p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={saveSharedPrefs}
+                className="rounded-md border px-2 py-1 hover:bg-accent"
+              >
+                Save as mine
+              </button>
+              <button
+                type="button"
+                onClick={discardSharedPrefs}
+                className="rounded-md border px-2 py-1 hover:bg-accent"
+              >
+                Use mine
+              </button>
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={prefs.runsCold ?? false}
+            onChange={(e) => update('runsCold', e.target.checked || undefined)}
+          />
+          I run cold
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs">
+          <span>Body composition</span>
+          <select
+            value={prefs.bodyComposition ?? ''}
+            onChange={(e) =>
+              update('bodyComposition', personalPrefsSchema.shape.bodyComposition.parse(e.target.value || undefined))
+            }
+            className="rounded-md border bg-background px-2 py-1"
+          >
+            <option value="">Not set</option>
+            {Object.entries(BODY_COMPOSITION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs">
+          <span>Sex</span>
+          <select
+            value={prefs.sex ?? ''}
+            onChange={(e) => update('sex', personalPrefsSchema.shape.sex.parse(e.target.value || undefined))}
+            className="rounded-md border bg-background px-2 py-1"
+          >
+            <option value="">Not set</option>
+            {Object.entries(SEX_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs">
+          <span>Exertion</span>
+          <select
+            value={prefs.exertion ?? ''}
+            onChange={(e) =>
+              update('exertion', personalPrefsSchema.shape.exertion.parse(e.target.value || undefined))
+            }
+            className="rounded-md border bg-background px-2 py-1"
+          >
+            <option value="">Not set</option>
+            {Object.entries(EXERTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {NUMBER_FIELDS.map(({ key, label, min, max, placeholder }) => (
+          <label key={key} className="flex items-center justify-between gap-2 text-xs">
+            <span>{label}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={min}
+              max={max}
+              step={1}
+              value={prefs[key] ?? ''}
+              placeholder={placeholder}
+              onChange={(e) => update(key, numberValue(e.target.value))}
+              className="w-20 rounded-md border bg-background px-2 py-1"
+            />
+          </label>
+        ))}
+      </div>
+    </details>
+  )
+}
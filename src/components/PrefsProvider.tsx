@@ -0,0 +1,102 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import type { PersonalPrefs } from '@/lib/prefs'
+import { personalPrefsSchema } from '@/lib/prefs'
+
+type PrefsProviderProps = {
+  children: React.ReactNode
+  storageKey?: string
+}
+
+type PrefsProviderState = {
+  prefs: PersonalPrefs
+  setPrefs: (prefs: PersonalPrefs) => void
+  /** True while a shared link's preferences are in effect instead of the stored ones */
+  isShared: boolean
+  /** Use a shared link's preferences for this session without storing them */
+  applySharedPrefs: (prefs: PersonalPrefs) => void
+  /** Store the shared preferences as the user's own */
+  saveSharedPrefs: () => void
+  /** Go back to the stored preferences */
+  discardSharedPrefs: () => void
+}
+
+const initialState: PrefsProviderState = {
+  prefs: {},
+  setPrefs: () => null,
+  isShared: false,
+  applySharedPrefs: () => null,
+  saveSharedPrefs: () => null,
+  discardSharedPrefs: () => null,
+}
+
+const PrefsProviderContext = createContext<PrefsProviderState>(initialState)
+
+function readStored(storageKey: string) {
+  try {
+    return personalPrefsSchema.safeParse(JSON.parse(localStorage.getItem(storageKey) ?? 'null'))
+  } catch {
+    return null
+  }
+}
+
+export function PrefsProvider({
+  children,
+  storageKey = 'dive-intel-prefs',
+}: PrefsProviderProps) {
+  // Always initialize empty to match server render
+  const [storedPrefs, setStoredPrefs] = useState<PersonalPrefs>({})
+  // A shared link's preferences; edits change these until saved or discarded
+  const [sharedPrefs, setSharedPrefs] = useState<PersonalPrefs | null>(null)
+
+  // After hydration: stored preferences, if they still validate
+  useEffect(() => {
+    const stored = readStored(storageKey)
+    if (stored?.success) {
+      setStoredPrefs(stored.data)
+    }
+  }, [storageKey])
+
+  const storePrefs = useCallback((next: PersonalPrefs) => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(storageKey, JSON.stringify(next))
+    }
+    setStoredPrefs(next)
+  }, [storageKey])
+
+  const handleSetPrefs = useCallback((next: PersonalPrefs) => {
+    if (sharedPrefs) {
+      setSharedPrefs(next)
+    } else {
+      storePrefs(next)
+    }
+  }, [sharedPrefs, storePrefs])
+
+  const saveSharedPrefs = useCallback(() => {
+    if (!sharedPrefs) return
+    storePrefs(sharedPrefs)
+    setSharedPrefs(null)
+  }, [sharedPrefs, storePrefs])
+
+  const discardSharedPrefs = useCallback(() => setSharedPrefs(null), [])
+
+  const value = useMemo(() => ({
+    prefs: sharedPrefs ?? storedPrefs,
+    setPrefs: handleSetPrefs,
+    isShared: sharedPrefs !== null,
+    applySharedPrefs: setSharedPrefs,
+    saveSharedPrefs,
+    discardSharedPrefs,
+  }), [sharedPrefs, storedPrefs, handleSetPrefs, saveSharedPrefs, discardSharedPrefs])
+
+  return (
+    <PrefsProviderContext.Provider value={value}>
+      {children}
+    </PrefsProviderContext.Provider>
+  )
+}
+
+export const usePrefs = () => {
+  const context = useContext(PrefsProviderContext)
+
+  return context
+}
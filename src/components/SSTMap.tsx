@@ -15,6 +15,8 @@ export interface SSTMapProps {
   initialZoom?: number
   isLoading?: boolean
   selectedLocation?: { lat: number; lon: number } | null
+  // Sea cell the data was actually sampled from, when snapped away from the click
+  resolvedLocation?: { lat: number; lon: number } | null
   isSelectionMode?: boolean
   onToggleSelectionMode?: () => void
 }
@@ -25,6 +27,7 @@ export const SSTMap = memo(function SSTMap({
   initialZoom = 4,
   isLoading = false,
   selectedLocation = null,
+  resolvedLocation = null,
   isSelectionMode = false,
   onToggleSelectionMode,
 }: SSTMapProps) {
@@ -35,6 +38,7 @@ export const SSTMap = memo(function SSTMap({
   const map = useRef<MapLibreMap | null>(null)
   const [isMapLoaded, setIsMapLoaded] = useState(false)
   const marker = useRef<maplibregl.Marker | null>(null)
+  const resolvedMarker = useRef<maplibregl.Marker | null>(null)
   const [selectedCoords, setSelectedCoords] = useState<{ lat: number; lon: number } | null>(null)
 
   // Initialize map
@@ -151,14 +155,56 @@ export const SSTMap = memo(function SSTMap({
     const markerEl = marker.current.getElement()
     markerEl.style.opacity = '0'
 
+    // Secondary marker: small dot at the sea cell the data came from
+    const resolvedEl = document.createElement('div')
+    resolvedEl.className = 'map-marker-resolved'
+    resolvedEl.title = 'Nearest sea cell with data'
+    resolvedEl.style.width = '14px'
+    resolvedEl.style.height = '14px'
+    resolvedEl.style.borderRadius = '9999px'
+    resolvedEl.style.background = '#0891b2' // cyan-600, matches the pin
+    resolvedEl.style.border = '2px solid white'
+    resolvedEl.style.boxShadow = '0 1px 3px rgba(0, 0, 0, 0.4)'
+    resolvedEl.style.transition = 'opacity 0.2s ease'
+    resolvedEl.style.opacity = '0'
+    resolvedEl.style.pointerEvents = 'none'
+
+    resolvedMarker.current = new maplibregl.Marker({
+      element: resolvedEl,
+      anchor: 'center',
+    })
+      .setLngLat([0, 0])
+      .addTo(map.current)
+
     return () => {
       if (marker.current) {
         marker.current.remove()
         marker.current = null
       }
+      if (resolvedMarker.current) {
+        resolvedMarker.current.remove()
+        resolvedMarker.current = null
+      }
     }
   }, [isMapLoaded])
 
+  // Show the resolved sea cell marker only when it differs from the selection
+  useEffect(() => {
+    if (!resolvedMarker.current || !isMapLoaded) return
+
+    const element = resolvedMarker.current.getElement()
+    if (resolvedLocation) {
+      resolvedMarker.current.setLngLat([resolvedLocation.lon, resolvedLocation.lat])
+      requestAnimationFrame(() => {
+        element.style.opacity = '1'
+      })
+    } else {
+      requestAnimationFrame(() => {
+        element.style.opacity = '0'
+      })
+    }
+  }, [resolvedLocation, isMapLoaded])
+
   // Pan map to new center when initialCenter changes (but don't reinitialize)
   useEffect(() => {
     if (!map.current) return
@@ -1,5 +1,7 @@
 import { memo, useCallback, useEffect, useRef, useState } from 'react'
+import type { Activity } from '@/lib/activities'
 import { DateTimePicker } from '@/components/DateTimePicker'
+import { ACTIVITIES, ACTIVITY_LABELS, isActivity } from '@/lib/activities'
 
 interface SearchResult {
   lat: number
@@ -12,10 +14,15 @@ export interface SearchBarProps {
   selectedDateTime?: string
   onDateTimeChange?: (datetime: string) => void
   displayText?: string
+  // Shown next to the time input, e.g. "WITA"; defaults to "site local"
+  timeZoneLabel?: string
+  // Water activity the suit advice is for; the selector shows when onActivityChange is set
+  activity?: Activity
+  onActivityChange?: (activity: Activity) => void
   onSearch?: (location?: { lat: number; lon: number; display: string }) => void // Optional callback when search button is clicked
 }
 
-export const SearchBar = memo(function SearchBar({ onSelectLocation, selectedDateTime, onDateTimeChange, displayText, onSearch }: SearchBarProps) {
+export const SearchBar = memo(function SearchBar({ onSelectLocation, selectedDateTime, onDateTimeChange, displayText, timeZoneLabel, activity = 'scuba', onActivityChange, onSearch }: SearchBarProps) {
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<Array<SearchResult>>([])
   const [isSearching, setIsSearching] = useState(false)
@@ -216,9 +223,27 @@ export const SearchBar = memo(function SearchBar({ onSelectLocation, selectedDat
             <DateTimePicker
               value={selectedDateTime}
               onChange={onDateTimeChange}
+              timeZoneLabel={timeZoneLabel}
             />
           </div>
         )}
+        {onActivityChange && (
+          <select
+            value={activity}
+            onChange={(e) => {
+              if (isActivity(e.target.value)) onActivityChange(e.target.value)
+            }}
+            aria-label="Activity"
+            title="Activity the suit advice is for"
+            className="w-full sm:w-auto px-3 py-1.5 text-sm md:text-base rounded-lg border bg-background focus:outline-none focus:ring-2 focus:ring-ring min-h-[44px] md:min-h-[40px]"
+          >
+            {ACTIVITIES.map((a) => (
+              <option key={a} value={a}>
+                {ACTIVITY_LABELS[a]}
+              </option>
+            ))}
+          </select>
+        )}
         <button
           type="submit"
           disabled={isSearching || !query.trim()}
@@ -1,18 +1,42 @@
 import { Link } from '@tanstack/react-router'
-import { SUIT_LABELS, suitForTemp } from '@/lib/suit'
+import { useState } from 'react'
+import type { TempUnit } from '@/lib/units'
+import type { SuitRecommendation, SuitType } from '@/lib/suit'
+import type { Activity } from '@/lib/activities'
+import { MAX_COMFORT_MINUTES } from '@/lib/comfort'
+import { layeredCombination } from '@/lib/accessories'
+import { ruleSetFor } from '@/lib/activities'
+import { closetAdvice } from '@/lib/closet'
+import { deltaFromCelsius, formatTemp } from '@/lib/units'
+import { formatUtcOffset } from '@/lib/timezone'
 import {
   Drawer,
   DrawerContent,
 } from '@/components/ui/drawer'
+import { TrendPanel } from '@/components/TrendPanel'
+import { SuitRulesSelect } from '@/components/SuitRulesSelect'
+import { useSuitRules } from '@/components/SuitRulesProvider'
+import { GearClosetPanel } from '@/components/GearClosetPanel'
+import { PreferencesPanel } from '@/components/PreferencesPanel'
+import { SuitReasoningPanel } from '@/components/SuitReasoningPanel'
+import { useGearCloset } from '@/components/GearClosetProvider'
 import { useMediaQuery } from '@/hooks/useMediaQuery'
 
 export interface SidebarRow {
   date: string
   tempC: number | null
+  // tempC converted to the payload's units
+  temp?: number | null
+  // Estimated temperature at the planned depth (°C and payload units)
+  depthTempC?: number | null
+  depthTemp?: number | null
   suit: {
-    type: string
+    type: SuitType
     notes?: string
+    boatCoat?: boolean
   } | null
+  // Sea-state values keyed by marine variable
+  marine?: Record<string, number | null> | null
   kind?: 'historical' | 'selected' | 'forecast' | 'no-data'
 }
 
@@ -22,6 +46,18 @@ export interface SidebarTableProps {
     lon: number
     display?: string
   }
+  resolved?: {
+    lat: number
+    lon: number
+    distanceKm: number
+  }
+  // Site time zone; selected times are wall-clock times at the dive site
+  timezone?: {
+    name: string
+    abbreviation: string
+    utcOffsetSeconds: number
+    localTime: string | null
+  } | null
   rows: Array<SidebarRow>
   stats: {
     mean: number
@@ -30,6 +66,52 @@ export interface SidebarTableProps {
     p10: number
     p90: number
   } | null
+  // Unit of temp, stats and diurnal values (tempC is always Celsius)
+  units?: TempUnit
+  // Sea-state columns present in each row's marine values
+  marineVariables?: Array<{ key: string; label: string; unit: string }>
+  // Air/wind on the selected date; airTemp and windChill in the payload's units
+  surface?: {
+    airTemp: number
+    windSpeedKmh: number
+    windChill: number
+    windChillC: number
+  } | null
+  // Activity the suits were sized for; scuba rule sets only apply to scuba
+  activity?: Activity
+  // Thermocline estimate when a planned depth was requested
+  depth?: {
+    meters: number
+    mixedLayerDepthM: number
+    lapseRatePerM: number
+  } | null
+  depthStats?: SidebarTableProps['stats']
+  // Primary and backup suit from the temperature spread, with class probabilities
+  recommendation?: SuitRecommendation | null
+  // Selected date vs the same dates in previous years; delta in payload units
+  anomaly?: {
+    delta: number
+    percentile: number
+    samples: number
+  } | null
+  selectedDepth?: number | null
+  onDepthChange?: (depth: number | null) => void
+  diurnal?: {
+    hours: Array<{ hour: number; temp: number | null }>
+    min: number
+    max: number
+    warmestHour: number
+    coldestHour: number
+  } | null
+  // Where the numbers came from (provider, dataset, sampled cell)
+  meta?: {
+    providerName: string
+    dataset: string
+    cell: { lat: number; lon: number } | null
+    resolutionDeg: number | null
+    fetchedAt: string
+    cached: boolean
+  }
   onClose: () => void
   open?: boolean
   onOpenChange?: (open: boolean) => void
@@ -37,14 +119,47 @@ export interface SidebarTableProps {
 
 export function SidebarTable({
   location,
+  resolved,
+  timezone,
   rows,
   stats,
+  units = 'C',
+  marineVariables = [],
+  surface,
+  activity = 'scuba',
+  depth,
+  depthStats,
+  recommendation,
+  anomaly,
+  selectedDepth = null,
+  onDepthChange,
+  diurnal,
+  meta,
   onClose,
   open = true,
   onOpenChange,
 }: SidebarTableProps) {
   // Detect mobile viewport (< 640px = Tailwind's sm breakpoint)
   const isMobile = useMediaQuery('(max-width: 639px)')
+  const { ruleSetId } = useSuitRules()
+  const suitLabels = ruleSetFor(activity, ruleSetId).labels
+  const [view, setView] = useState<'suits' | 'sea-state'>('suits')
+
+  const showSeaState = view === 'sea-state' && marineVariables.length > 0
+  const columnCount = showSeaState ? 1 + marineVariables.length : 3
+
+  const usualRange = deltaFromCelsius(USUAL_RANGE_C, units)
+  const selectedDate = rows.find((r) => r.kind === 'selected')?.date
+  // Sized server-side from every day's temperature (at depth, if requested)
+  const overallSuit = recommendation?.primary ?? null
+  const backupSuit = recommendation?.backup ?? null
+  const { closet } = useGearCloset()
+  // What the user already owns for the primary (and backup) suit
+  const gearAdvice = [overallSuit, backupSuit].flatMap((suit) =>
+    suit ? [{ suit, advice: closetAdvice(suit, suitLabels, closet) }] : [],
+  )
+  const probabilityOf = (type: SuitType) =>
+    recommendation?.probabilities.find((p) => p.type === type)?.probability ?? 0
 
   // Shared content for both mobile drawer and desktop sidebar
   const content = (
@@ -59,6 +174,35 @@ export function SidebarTable({
             <p className="text-sm opacity-90">
               {location.lat.toFixed(4)}, {location.lon.toFixed(4)}
             </p>
+            {resolved && resolved.distanceKm > 0 && (
+              <p className="text-xs opacity-80 mt-1">
+                Data from nearest sea cell {resolved.distanceKm.toFixed(1)} km
+                away ({resolved.lat.toFixed(4)}, {resolved.lon.toFixed(4)})
+              </p>
+            )}
+            {timezone && (
+              <p className="text-xs opacity-80 mt-1">
+                Site local time: {timezone.abbreviation}{' '}
+                ({formatUtcOffset(timezone.utcOffsetSeconds)})
+                {timezone.localTime && `, ${timezone.localTime.replace('T', ' ')}`}
+              </p>
+            )}
+            {anomaly && (
+              <span
+                className={`inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-semibold ${
+                  anomaly.delta <= -usualRange
+                    ? 'bg-blue-100 text-blue-900'
+                    : anomaly.delta >= usualRange
+                      ? 'bg-orange-100 text-orange-900'
+                      : 'bg-white/20'
+                }`}
+                title={`${Math.round(anomaly.percentile)}th percentile of ${anomaly.samples} historical days`}
+              >
+                {Math.abs(anomaly.delta) < usualRange
+                  ? 'About usual for this date'
+                  : `${Math.abs(anomaly.delta).toFixed(1)}°${units} ${anomaly.delta < 0 ? 'colder' : 'warmer'} than usual`}
+              </span>
+            )}
           </div>
           <button
             onClick={onClose}
@@ -86,32 +230,180 @@ export function SidebarTable({
           <div className="mt-4 grid grid-cols-3 gap-2 text-xs">
             <div>
               <div className="opacity-80">Mean</div>
-              <div className="font-semibold">{stats.mean.toFixed(1)}°C</div>
+              <div className="font-semibold">{stats.mean.toFixed(1)}°{units}</div>
             </div>
             <div>
               <div className="opacity-80">Range</div>
               <div className="font-semibold">
-                {stats.min.toFixed(1)}-{stats.max.toFixed(1)}°C
+                {stats.min.toFixed(1)}-{stats.max.toFixed(1)}°{units}
               </div>
             </div>
             <div>
               <div className="opacity-80">P10-P90</div>
               <div className="font-semibold">
-                {stats.p10.toFixed(1)}-{stats.p90.toFixed(1)}°C
+                {stats.p10.toFixed(1)}-{stats.p90.toFixed(1)}°{units}
               </div>
             </div>
           </div>
         )}
       </div>
 
+      {/* Surface conditions (air, wind, wind chill) for the selected date */}
+      {surface && (
+        <div className="px-4 pt-4">
+          <h3 className="text-sm font-semibold mb-2">On the Boat</h3>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-lg border p-2">
+              <div className="text-xs text-muted-foreground">Air</div>
+              <div className="text-sm font-semibold">
+                {surface.airTemp.toFixed(1)}°{units}
+              </div>
+            </div>
+            <div className="rounded-lg border p-2">
+              <div className="text-xs text-muted-foreground">Wind</div>
+              <div className="text-sm font-semibold">
+                {Math.round(surface.windSpeedKmh)} km/h
+              </div>
+            </div>
+            <div className="rounded-lg border p-2">
+              <div className="text-xs text-muted-foreground">Feels like</div>
+              <div className="text-sm font-semibold">
+                {surface.windChill.toFixed(1)}°{units}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Diurnal profile for the selected date */}
+      {diurnal && (
+        <div className="px-4 pt-4">
+          <div className="flex items-baseline justify-between mb-2">
+            <h3 className="text-sm font-semibold">Through the Day</h3>
+            <span className="text-xs text-muted-foreground">
+              {diurnal.min.toFixed(1)}-{diurnal.max.toFixed(1)}°{units}
+            </span>
+          </div>
+          <div
+            className="flex items-end gap-px h-10"
+            role="img"
+            aria-label={`Hourly water temperature, warmest at ${formatHour(diurnal.warmestHour)}, coldest at ${formatHour(diurnal.coldestHour)}`}
+          >
+            {diurnal.hours.map((h, i) => {
+              // Scale bars between 20% and 100% so small swings stay visible
+              const span = diurnal.max - diurnal.min
+              const height =
+                h.temp === null
+                  ? 0
+                  : 20 + (span > 0 ? ((h.temp - diurnal.min) / span) * 80 : 80)
+              const isExtreme =
+                h.hour === diurnal.warmestHour || h.hour === diurnal.coldestHour
+
+              return (
+                <div
+                  // DST fall-back days repeat an hour
+                  key={`${h.hour}-${i}`}
+                  className={`flex-1 rounded-t-sm ${isExtreme ? 'bg-primary' : 'bg-primary/40'}`}
+                  style={{ height: `${height}%` }}
+                  title={
+                    h.temp !== null
+                      ? `${formatHour(h.hour)} ${h.temp.toFixed(1)}°${units}`
+                      : `${formatHour(h.hour)} no data`
+                  }
+                />
+              )
+            })}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+            <span>00</span>
+            <span>06</span>
+            <span>12</span>
+            <span>18</span>
+            <span>23</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Warmest around {formatHour(diurnal.warmestHour)}, coldest around{' '}
+            {formatHour(diurnal.coldestHour)}
+          </p>
+        </div>
+      )}
+
       {/* Table */}
       <div className="p-4">
+          {activity === 'scuba' && (
+            <div className="mb-3">
+              <SuitRulesSelect id="sidebar-suit-rules" />
+            </div>
+          )}
+          {onDepthChange && (
+            <div className="flex items-center justify-between mb-3 text-sm">
+              <label htmlFor="depth-select" className="font-medium">
+                Max depth
+              </label>
+              <select
+                id="depth-select"
+                value={selectedDepth ?? ''}
+                onChange={(e) =>
+                  onDepthChange(e.target.value ? Number(e.target.value) : null)
+                }
+                className="rounded-md border bg-background px-2 py-1"
+              >
+                <option value="">Surface only</option>
+                {DEPTH_OPTIONS.map((m) => (
+                  <option key={m} value={m}>
+                    {m} m
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {depth && (
+            <p className="text-xs text-muted-foreground mb-3">
+              Estimated {depth.meters} m temperature: mixed layer to ~
+              {Math.round(depth.mixedLayerDepthM)} m, then cooling{' '}
+              {deltaFromCelsius(depth.lapseRatePerM, units).toFixed(2)}°{units}{' '}
+              per m. Thermocline model
+              estimate, not a measurement.
+            </p>
+          )}
+          {marineVariables.length > 0 && (
+            <div role="tablist" className="flex gap-1 mb-3 p-1 bg-muted rounded-lg text-sm">
+              {([['suits', 'Suits'], ['sea-state', 'Sea State']] as const).map(([key, label]) => (
+                <button
+                  key={key}
+                  role="tab"
+                  aria-selected={view === key}
+                  onClick={() => setView(key)}
+                  className={`flex-1 px-3 py-1 rounded-md font-medium transition-colors ${
+                    view === key
+                      ? 'bg-background shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
           <table className="w-full text-sm">
             <thead>
               <tr className="border-b">
                 <th className="text-left py-2 font-semibold">Date</th>
-                <th className="text-right py-2 font-semibold">Temp</th>
-                <th className="text-right py-2 font-semibold">Suit</th>
+                {showSeaState ? (
+                  marineVariables.map((v) => (
+                    <th key={v.key} className="text-right py-2 pl-2 font-semibold">
+                      {v.label}
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        {v.unit}
+                      </span>
+                    </th>
+                  ))
+                ) : (
+                  <>
+                    <th className="text-right py-2 font-semibold">Temp</th>
+                    <th className="text-right py-2 font-semibold">Suit</th>
+                  </>
+                )}
               </tr>
             </thead>
             <tbody>
@@ -129,7 +421,7 @@ export function SidebarTable({
                     {showYearSeparator && (
                       <tr key={`year-${currentYear}`} className="bg-muted/30">
                         <td
-                          colSpan={3}
+                          colSpan={columnCount}
                           className="py-2 pt-3 pr-2 text-xs font-bold text-foreground uppercase tracking-wide"
                         >
                           {currentYear}
@@ -143,7 +435,7 @@ export function SidebarTable({
                           className="bg-muted/30"
                         >
                           <td
-                            colSpan={3}
+                            colSpan={columnCount}
                             className="py-2 pt-3 pr-2 text-xs font-bold text-foreground uppercase tracking-wide"
                           >
                             {currentYear}
@@ -153,7 +445,7 @@ export function SidebarTable({
                     {isNoData ? (
                       <tr key={i} className="border-b">
                         <td
-                          colSpan={3}
+                          colSpan={columnCount}
                           className="py-2 text-sm italic text-muted-foreground"
                         >
                           No data available
@@ -172,31 +464,50 @@ export function SidebarTable({
                             </span>
                           )}
                         </td>
-                        <td className="py-2 text-right font-mono">
-                          {row.tempC !== null
-                            ? `${row.tempC.toFixed(1)}°C`
-                            : '—'}
-                        </td>
-                        <td className="py-2 pr-2 text-right">
-                          {row.suit ? (
-                            <div className="flex flex-col items-end">
-                              <span className="font-medium">
-                                {
-                                  SUIT_LABELS[
-                                    row.suit.type as keyof typeof SUIT_LABELS
-                                  ]
-                                }
-                              </span>
-                              {row.suit.notes && (
-                                <span className="text-xs text-muted-foreground">
-                                  {row.suit.notes.split(' - ')[0]}
+                        {showSeaState ? (
+                          marineVariables.map((v) => {
+                            const value = row.marine?.[v.key]
+                            return (
+                              <td key={v.key} className="py-2 pl-2 text-right font-mono">
+                                {typeof value === 'number' ? formatMarine(value, v.unit) : '—'}
+                              </td>
+                            )
+                          })
+                        ) : (
+                          <>
+                            <td className="py-2 text-right font-mono">
+                              {row.tempC !== null
+                                ? formatTemp(row.tempC, units)
+                                : '—'}
+                              {depth && typeof row.depthTempC === 'number' && (
+                                <span className="block text-xs text-muted-foreground">
+                                  {depth.meters} m: {formatTemp(row.depthTempC, units)}
                                 </span>
                               )}
-                            </div>
-                          ) : (
-                            <span className="text-muted-foreground">—</span>
-                          )}
-                        </td>
+                            </td>
+                            <td className="py-2 pr-2 text-right">
+                              {row.suit ? (
+                                <div className="flex flex-col items-end">
+                                  <span className="font-medium">
+                                    {suitLabels[row.suit.type]}
+                                  </span>
+                                  {row.suit.notes && (
+                                    <span className="text-xs text-muted-foreground">
+                                      {row.suit.notes.split(' - ')[0]}
+                                    </span>
+                                  )}
+                                  {row.suit.boatCoat && (
+                                    <span className="text-xs text-muted-foreground">
+                                      + boat coat
+                                    </span>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </td>
+                          </>
+                        )}
                       </tr>
                     )}
                   </>
@@ -206,7 +517,7 @@ export function SidebarTable({
           </table>
 
           {/* Aggregate Recommendation */}
-          {stats && (
+          {stats && overallSuit && (
             <div className="mt-6 p-4 bg-accent/50 rounded-lg border">
               <h3 className="text-sm font-semibold mb-3">
                 Overall Recommendation
@@ -215,47 +526,179 @@ export function SidebarTable({
                 <div className="flex justify-between items-center">
                   <span className="text-sm">Average Temperature:</span>
                   <span className="text-sm font-semibold">
-                    {stats.mean.toFixed(1)}°C
+                    {stats.mean.toFixed(1)}°{units}
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm">Temperature Range:</span>
                   <span className="text-sm font-semibold">
-                    {stats.min.toFixed(1)}°C - {stats.max.toFixed(1)}°C
+                    {stats.min.toFixed(1)}°{units} - {stats.max.toFixed(1)}°{units}
                   </span>
                 </div>
+                {depth && depthStats && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Average at {depth.meters} m:</span>
+                    <span className="text-sm font-semibold">
+                      {depthStats.mean.toFixed(1)}°{units}
+                    </span>
+                  </div>
+                )}
                 <div className="mt-4 pt-4 border-t">
                   <div className="text-sm mb-2">Recommended Suit:</div>
                   <div className="flex items-start gap-3">
                     <div className="flex-1">
                       <div className="text-base font-bold">
-                        {SUIT_LABELS[suitForTemp(stats.mean).type]}
+                        {suitLabels[overallSuit.type]}
                       </div>
-                      {suitForTemp(stats.mean).notes && (
+                      {overallSuit.notes && (
                         <div className="text-xs text-muted-foreground mt-1">
-                          {suitForTemp(stats.mean).notes}
+                          {overallSuit.notes}
+                        </div>
+                      )}
+                      {overallSuit.undergarment && (
+                        <div className="text-xs font-medium mt-1">
+                          Wear a {overallSuit.undergarment}-weight undergarment
+                        </div>
+                      )}
+                      {overallSuit.surfaceNotes && (
+                        <div className="text-xs font-medium mt-1">
+                          {overallSuit.surfaceNotes}
                         </div>
                       )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Comfortable for about{' '}
+                        {overallSuit.comfortableMinutes >= MAX_COMFORT_MINUTES
+                          ? '2 hours or more'
+                          : `${overallSuit.comfortableMinutes} min`}{' '}
+                        · {Math.round(overallSuit.confidence * 100)}% confidence
+                      </div>
                     </div>
                   </div>
-                  <div className="text-xs text-muted-foreground mt-3">
-                    Based on average temperature over historical and forecast
-                    data. Consider bringing backup options for temperature
-                    extremes.
-                  </div>
-                  <Link
-                    to="/store"
-                    search={{ category: 'Wetsuits' }}
-                    className="mt-4 inline-flex items-center justify-center w-full px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-lg hover:bg-primary/90 transition-colors touch-none"
-                    onClick={(e) => e.stopPropagation()}
-                    onTouchEnd={(e) => e.stopPropagation()}
-                  >
-                    Shop for Suits
-                  </Link>
+                  <SuitReasoningPanel
+                    reasoning={overallSuit.reasoning}
+                    label={suitLabels[overallSuit.type]}
+                    labels={suitLabels}
+                    units={units}
+                    basis="Average of the days that call for this suit"
+                  />
+                  {backupSuit ? (
+                    <div className="mt-3 p-3 rounded-md border border-amber-500/50 bg-amber-500/10">
+                      <div className="text-sm font-semibold">
+                        Pack both: {suitLabels[overallSuit.type]} and{' '}
+                        {suitLabels[backupSuit.type]}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {Math.round(probabilityOf(overallSuit.type) * 100)}% of
+                        days call for the {suitLabels[overallSuit.type]},{' '}
+                        {Math.round(probabilityOf(backupSuit.type) * 100)}% for
+                        the {suitLabels[backupSuit.type]}
+                        {backupSuit.notes && ` (${backupSuit.notes.split(' - ')[0]})`}.
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-xs text-muted-foreground mt-3">
+                      Based on the spread of historical and forecast days; one
+                      suit covers{' '}
+                      {Math.round(probabilityOf(overallSuit.type) * 100)}% of them.
+                    </div>
+                  )}
+                  {gearAdvice.map(({ suit, advice }, i) => (
+                    <div key={suit.type} className="mt-4">
+                      <div className="text-sm">
+                        {backupSuit && (
+                          <span className="font-medium">
+                            {suitLabels[suit.type]}:{' '}
+                          </span>
+                        )}
+                        {advice.message}
+                      </div>
+                      {advice.storeCategory && (
+                        <Link
+                          to="/store"
+                          search={{ category: advice.storeCategory }}
+                          className={
+                            i === 0
+                              ? 'mt-2 inline-flex items-center justify-center w-full px-4 py-2 text-sm font-medium text-primary-foreground bg-primary rounded-lg hover:bg-primary/90 transition-colors touch-none'
+                              : 'mt-1 inline-block text-xs underline hover:text-foreground touch-none'
+                          }
+                          onClick={(e) => e.stopPropagation()}
+                          onTouchEnd={(e) => e.stopPropagation()}
+                        >
+                          Shop {advice.storeCategory}
+                        </Link>
+                      )}
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
           )}
+
+          {/* Accessories for the overall recommendation */}
+          {stats && overallSuit && overallSuit.accessories.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold mb-1">Accessories</h3>
+              <p className="text-xs text-muted-foreground mb-3">
+                Wear:{' '}
+                {layeredCombination(
+                  suitLabels[overallSuit.type],
+                  overallSuit.accessories,
+                )}
+              </p>
+              <ul className="space-y-2 text-sm">
+                {overallSuit.accessories.map((a) => (
+                  <li key={a.kind} className="flex justify-between gap-3">
+                    <span className="font-medium whitespace-nowrap">{a.label}</span>
+                    <span className="text-xs text-muted-foreground text-right">
+                      {a.reason}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Personal preferences, sent with every recommendation */}
+          <div className="mt-6">
+            <PreferencesPanel />
+          </div>
+
+          {/* Owned gear, for the buy/rent advice above */}
+          <div className="mt-3">
+            <GearClosetPanel />
+          </div>
+
+          {/* Long-term trend (loaded on demand) */}
+          {selectedDate && (
+            <div className="mt-6">
+              <TrendPanel
+                lat={resolved?.lat ?? location.lat}
+                lon={resolved?.lon ?? location.lon}
+                date={selectedDate}
+                units={units}
+              />
+            </div>
+          )}
+
+          {/* Data provenance */}
+          {meta && (
+            <div className="mt-6 pt-4 border-t text-xs text-muted-foreground space-y-1">
+              <p>
+                Source: {meta.providerName} ({meta.dataset}
+                {meta.resolutionDeg !== null && `, ${meta.resolutionDeg}° grid`})
+              </p>
+              {meta.cell && (
+                <p>
+                  Sampled cell: {meta.cell.lat.toFixed(3)},{' '}
+                  {meta.cell.lon.toFixed(3)}
+                </p>
+              )}
+              <p>
+                Fetched {new Date(meta.fetchedAt).toLocaleString()}
+                {meta.cached && ' (cached)'}
+              </p>
+            </div>
+          )}
         </div>
     </>
   )
@@ -282,3 +725,18 @@ export function SidebarTable({
     </>
   )
 }
+
+// Anomalies smaller than this (°C) read as "about usual"
+const USUAL_RANGE_C = 0.3
+
+// Planned max depth choices in metres (recreational limits and common plans)
+const DEPTH_OPTIONS = [10, 18, 30, 40]
+
+function formatMarine(value: number, unit: string): string {
+  // Directions as whole degrees, everything else to one decimal
+  return unit === '°' ? `${Math.round(value)}°` : value.toFixed(1)
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`
+}
@@ -0,0 +1,72 @@
+import type { SuitReasoning, SuitType } from '@/lib/suit'
+import type { TempUnit } from '@/lib/units'
+
+type SuitReasoningPanelProps = {
+  reasoning: SuitReasoning
+  /** Label of the recommended suit */
+  label: string
+  labels: Record<SuitType, string>
+  units: TempUnit
+  /** Where rawTemp comes from, e.g. "Average of the days calling for this suit" */
+  basis?: string
+}
+
+/**
+ * Expandable breakdown of a suit recommendation: water temperature, each
+ * adjustment, and the thresholds either side of the sizing temperature
+ */
+export function SuitReasoningPanel({
+  reasoning,
+  label,
+  labels,
+  units,
+  basis,
+}: SuitReasoningPanelProps) {
+  const { rawTemp, adjustments, sizedTemp, colder, warmer } = reasoning
+  const temp = (t: number) => `${t.toFixed(1)}°${units}`
+  const delta = (d: number) => `${d > 0 ? '+' : ''}${d.toFixed(1)}°${units}`
+  const distance = (d: number) => `${Math.abs(d).toFixed(1)}°${units}`
+
+  return (
+    <details className="mt-3 rounded-md border bg-background/50">
+      <summary className="cursor-pointer px-3 py-2 text-xs font-semibold">
+        Why this suit?
+      </summary>
+      <div className="px-3 pb-3 space-y-1 text-xs">
+        <div className="flex justify-between gap-2">
+          <span>Water temperature</span>
+          <span className="font-medium">{temp(rawTemp)}</span>
+        </div>
+        {basis && <div className="text-muted-foreground">{basis}</div>}
+        {adjustments.map((a) => (
+          <div key={a.source} className="flex justify-between gap-2">
+            <span>{a.label}</span>
+            <span className="font-medium">{delta(a.delta)}</span>
+          </div>
+        ))}
+        {adjustments.length === 0 && (
+          <div className="text-muted-foreground">
+            No adjustments: set your preferences to tailor this
+          </div>
+        )}
+        <div className="flex justify-between gap-2 border-t pt-1">
+          <span>Sized for</span>
+          <span className="font-semibold">{temp(sizedTemp)}</span>
+        </div>
+        <ul className="mt-2 space-y-1 text-muted-foreground">
+          <li>
+            {colder
+              ? `${temp(sizedTemp)} is at or above the ${temp(colder.threshold)} threshold for the ${label}; ${distance(colder.margin)} colder calls for the ${labels[colder.type]}.`
+              : `The ${label} covers everything below the warmer classes.`}
+          </li>
+          {warmer && (
+            <li>
+              {distance(warmer.margin)} warmer ({temp(warmer.threshold)}) and the{' '}
+              {labels[warmer.type]} would do.
+            </li>
+          )}
+        </ul>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,63 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import type { SuitRuleSet, SuitRuleSetId } from '@/lib/suit-rules'
+import { DEFAULT_RULE_SET_ID, getRuleSet, isRuleSetId } from '@/lib/suit-rules'
+
+type SuitRulesProviderProps = {
+  children: React.ReactNode
+  storageKey?: string
+}
+
+type SuitRulesProviderState = {
+  ruleSetId: SuitRuleSetId
+  ruleSet: SuitRuleSet
+  setRuleSetId: (id: SuitRuleSetId) => void
+}
+
+const initialState: SuitRulesProviderState = {
+  ruleSetId: DEFAULT_RULE_SET_ID,
+  ruleSet: getRuleSet(DEFAULT_RULE_SET_ID),
+  setRuleSetId: () => null,
+}
+
+const SuitRulesProviderContext = createContext<SuitRulesProviderState>(initialState)
+
+export function SuitRulesProvider({
+  children,
+  storageKey = 'dive-intel-suit-rules',
+}: SuitRulesProviderProps) {
+  // Always initialize with the default rule set to match server render
+  const [ruleSetId, setRuleSetId] = useState<SuitRuleSetId>(DEFAULT_RULE_SET_ID)
+
+  // After hydration: stored choice, if it is still a known preset
+  useEffect(() => {
+    const stored = localStorage.getItem(storageKey)
+    if (stored && isRuleSetId(stored)) {
+      setRuleSetId(stored)
+    }
+  }, [storageKey])
+
+  const handleSetRuleSetId = useCallback((id: SuitRuleSetId) => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(storageKey, id)
+    }
+    setRuleSetId(id)
+  }, [storageKey])
+
+  const value = useMemo(() => ({
+    ruleSetId,
+    ruleSet: getRuleSet(ruleSetId),
+    setRuleSetId: handleSetRuleSetId,
+  }), [ruleSetId, handleSetRuleSetId])
+
+  return (
+    <SuitRulesProviderContext.Provider value={value}>
+      {children}
+    </SuitRulesProviderContext.Provider>
+  )
+}
+
+export const useSuitRules = () => {
+  const context = useContext(SuitRulesProviderContext)
+
+  return context
+}
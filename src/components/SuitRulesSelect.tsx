@@ -0,0 +1,29 @@
+import { useSuitRules } from './SuitRulesProvider'
+import { SUIT_RULE_SETS, isRuleSetId } from '@/lib/suit-rules'
+
+export function SuitRulesSelect({ id = 'suit-rules-select' }: { id?: string }) {
+  const { ruleSet, setRuleSetId } = useSuitRules()
+
+  return (
+    <div className="flex items-center justify-between gap-3 text-sm">
+      <label htmlFor={id} className="font-medium">
+        Suit guidelines
+      </label>
+      <select
+        id={id}
+        value={ruleSet.id}
+        onChange={(e) => {
+          if (isRuleSetId(e.target.value)) setRuleSetId(e.target.value)
+        }}
+        title={ruleSet.description}
+        className="rounded-md border bg-background px-2 py-1"
+      >
+        {SUIT_RULE_SETS.map((r) => (
+          <option key={r.id} value={r.id}>
+            {r.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react'
+import type { TempUnit } from '@/lib/units'
+
+interface TrendSeries {
+  points: Array<{ year: number; temp: number; samples: number }>
+  trend: {
+    perDecade: number
+    ciLow: number
+    ciHigh: number
+    intercept: number
+    slope: number
+    n: number
+  } | null
+}
+
+interface TrendData {
+  period: { startYear: number; endYear: number }
+  window: { days: number }
+  units: TempUnit
+  dayOfYear: TrendSeries
+  annual: TrendSeries
+}
+
+export interface TrendPanelProps {
+  lat: number
+  lon: number
+  date: string
+  units: TempUnit
+}
+
+/**
+ * Long-term warming trend for a location, loaded on demand
+ * (a multi-decade series is a heavier request than the point lookup)
+ */
+export function TrendPanel({ lat, lon, date, units }: TrendPanelProps) {
+  const [requested, setRequested] = useState(false)
+  const [data, setData] = useState<TrendData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [view, setView] = useState<'dayOfYear' | 'annual'>('dayOfYear')
+
+  // Reset when the location or date changes
+  useEffect(() => {
+    setRequested(false)
+    setData(null)
+    setError(null)
+  }, [lat, lon, date])
+
+  useEffect(() => {
+    if (!requested) return
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    fetch(`/api/sst/trend?lat=${lat}&lon=${lon}&date=${date}&units=${units}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.error || 'Failed to load trend')
+        }
+        return response.json()
+      })
+      .then((result: TrendData) => {
+        if (!cancelled) setData(result)
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching trend:', err)
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load trend')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [requested, lat, lon, date, units])
+
+  if (!requested) {
+    return (
+      <button
+        onClick={() => setRequested(true)}
+        className="w-full px-4 py-2 text-sm font-medium rounded-lg border hover:bg-accent transition-colors"
+      >
+        Show long-term trend
+      </button>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        Loading decades of temperature history...
+      </div>
+    )
+  }
+
+  if (error) {
+    return <div className="text-sm text-destructive">{error}</div>
+  }
+
+  if (!data) return null
+
+  const series = data[view]
+  const { trend } = series
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-sm font-semibold">Long-term Trend</h3>
+        <span className="text-xs text-muted-foreground">
+          {data.period.startYear}-{data.period.endYear}
+        </span>
+      </div>
+      <div role="tablist" className="flex gap-1 mb-3 p-1 bg-muted rounded-lg text-xs">
+        {([
+          ['dayOfYear', `This time of year (±${data.window.days}d)`],
+          ['annual', 'Annual mean'],
+        ] as const).map(([key, label]) => (
+          <button
+            key={key}
+            role="tab"
+            aria-selected={view === key}
+            onClick={() => setView(key)}
+            className={`flex-1 px-2 py-1 rounded-md font-medium transition-colors ${
+              view === key
+                ? 'bg-background shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {series.points.length > 0 ? (
+        <TrendChart series={series} units={data.units} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Not enough complete years for this view.
+        </p>
+      )}
+      {trend && (
+        <p className="text-xs text-muted-foreground mt-2">
+          {trend.perDecade >= 0 ? '+' : ''}
+          {trend.perDecade.toFixed(2)}°{data.units} per decade (95% CI{' '}
+          {trend.ciLow.toFixed(2)} to {trend.ciHigh.toFixed(2)}, {trend.n} years)
+        </p>
+      )}
+    </div>
+  )
+}
+
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 120
+const CHART_PADDING = 24
+
+/**
+ * Yearly values as dots with the fitted trend line
+ */
+function TrendChart({ series, units }: { series: TrendSeries; units: TempUnit }) {
+  const { points, trend } = series
+  const years = points.map((p) => p.year)
+  const temps = points.map((p) => p.temp)
+  const minYear = Math.min(...years)
+  const maxYear = Math.max(...years)
+  const minTemp = Math.min(...temps)
+  const maxTemp = Math.max(...temps)
+
+  const x = (year: number) =>
+    CHART_PADDING +
+    (maxYear > minYear ? (year - minYear) / (maxYear - minYear) : 0.5) *
+      (CHART_WIDTH - 2 * CHART_PADDING)
+  const y = (temp: number) =>
+    CHART_HEIGHT -
+    CHART_PADDING -
+    (maxTemp > minTemp ? (temp - minTemp) / (maxTemp - minTemp) : 0.5) *
+      (CHART_HEIGHT - 2 * CHART_PADDING)
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={
+        trend
+          ? `Yearly water temperature with a trend of ${trend.perDecade.toFixed(2)}°${units} per decade`
+          : 'Yearly water temperature'
+      }
+    >
+      <text x={4} y={CHART_PADDING} className="fill-muted-foreground text-[9px]">
+        {maxTemp.toFixed(1)}°
+      </text>
+      <text x={4} y={CHART_HEIGHT - CHART_PADDING} className="fill-muted-foreground text-[9px]">
+        {minTemp.toFixed(1)}°
+      </text>
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 6} className="fill-muted-foreground text-[9px]">
+        {minYear}
+      </text>
+      <text
+        x={CHART_WIDTH - CHART_PADDING}
+        y={CHART_HEIGHT - 6}
+        textAnchor="end"
+        className="fill-muted-foreground text-[9px]"
+      >
+        {maxYear}
+      </text>
+      {trend && (
+        <line
+          x1={x(minYear)}
+          y1={y(trend.intercept + trend.slope * minYear)}
+          x2={x(maxYear)}
+          y2={y(trend.intercept + trend.slope * maxYear)}
+          className="stroke-primary"
+          strokeWidth={2}
+        />
+      )}
+      {points.map((p) => (
+        <circle
+          key={p.year}
+          cx={x(p.year)}
+          cy={y(p.temp)}
+          r={3}
+          className="fill-primary/50"
+        >
+          <title>{`${p.year}: ${p.temp.toFixed(1)}°${units}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,19 @@
+import { useUnits } from './UnitsProvider'
+import { Button } from '@/components/ui/button'
+
+export function UnitToggle() {
+  const { units, setUnits } = useUnits()
+  const next = units === 'C' ? 'F' : 'C'
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={() => setUnits(next)}
+      aria-label={`Switch to °${next}`}
+      title={`Switch to °${next}`}
+    >
+      <span className="text-sm font-semibold">°{units}</span>
+    </Button>
+  )
+}
@@ -0,0 +1,62 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import type { TempUnit } from '@/lib/units'
+import { defaultUnitForLocale } from '@/lib/units'
+
+type UnitsProviderProps = {
+  children: React.ReactNode
+  storageKey?: string
+}
+
+type UnitsProviderState = {
+  units: TempUnit
+  setUnits: (units: TempUnit) => void
+}
+
+const initialState: UnitsProviderState = {
+  units: 'C',
+  setUnits: () => null,
+}
+
+const UnitsProviderContext = createContext<UnitsProviderState>(initialState)
+
+export function UnitsProvider({
+  children,
+  storageKey = 'dive-intel-units',
+}: UnitsProviderProps) {
+  // Always initialize with °C to match server render
+  const [units, setUnits] = useState<TempUnit>('C')
+
+  // After hydration: stored choice, else default from the browser locale
+  useEffect(() => {
+    const stored = localStorage.getItem(storageKey)
+    if (stored === 'C' || stored === 'F') {
+      setUnits(stored)
+      return
+    }
+    setUnits(defaultUnitForLocale(navigator.language))
+  }, [storageKey])
+
+  const handleSetUnits = useCallback((newUnits: TempUnit) => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(storageKey, newUnits)
+    }
+    setUnits(newUnits)
+  }, [storageKey])
+
+  const value = useMemo(() => ({
+    units,
+    setUnits: handleSetUnits,
+  }), [units, handleSetUnits])
+
+  return (
+    <UnitsProviderContext.Provider value={value}>
+      {children}
+    </UnitsProviderContext.Provider>
+  )
+}
+
+export const useUnits = () => {
+  const context = useContext(UnitsProviderContext)
+
+  return context
+}
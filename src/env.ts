@@ -8,6 +8,14 @@ export const env = createEnv({
     BASEMAP_API_KEY: z.string().optional(),
     // Geoapify API key for geocoding (free tier: 3k/day, 90k/month)
     GEOAPIFY_API_KEY: z.string().min(1),
+    // SST data source: Open-Meteo Marine API or local gridded files (offline)
+    SST_PROVIDER: z.enum(['open-meteo', 'local']).default('open-meteo'),
+    // Directory of daily SST files (YYYY-MM-DD.json/.csv), used when SST_PROVIDER=local
+    SST_LOCAL_DATA_DIR: z.string().optional(),
+    // Air temperature/wind source for surface-interval advice ('none' disables it, e.g. offline)
+    ATMOSPHERIC_PROVIDER: z.enum(['open-meteo', 'none']).default('open-meteo'),
+    // Directory for server-side gear closets (one JSON file per closet); unset keeps closets in the browser only
+    GEAR_CLOSET_DIR: z.string().optional(),
   },
 
   /**
@@ -32,6 +40,10 @@ export const env = createEnv({
     SERVER_URL: process.env.SERVER_URL,
     BASEMAP_API_KEY: process.env.BASEMAP_API_KEY,
     GEOAPIFY_API_KEY: process.env.GEOAPIFY_API_KEY,
+    SST_PROVIDER: process.env.SST_PROVIDER,
+    SST_LOCAL_DATA_DIR: process.env.SST_LOCAL_DATA_DIR,
+    ATMOSPHERIC_PROVIDER: process.env.ATMOSPHERIC_PROVIDER,
+    GEAR_CLOSET_DIR: process.env.GEAR_CLOSET_DIR,
     // Client-side env vars (from import.meta.env, must have VITE_ prefix)
     VITE_APP_TITLE: import.meta.env.VITE_APP_TITLE,
     VITE_BASEMAP_API_KEY: import.meta.env.VITE_BASEMAP_API_KEY,
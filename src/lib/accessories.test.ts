@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import type { Activity } from '@/lib/activities'
+import type { SuitRuleSetId } from '@/lib/suit-rules'
+import { accessoriesFor, layeredCombination } from '@/lib/accessories'
+import { ruleSetFor } from '@/lib/activities'
+import { ruleBands } from '@/lib/suit-rules'
+
+function bandAt(tempC: number, activity: Activity = 'scuba', rules?: SuitRuleSetId) {
+  const bands = ruleBands(ruleSetFor(activity, rules))
+  return bands.find((b) => b.minTempC === undefined || tempC >= b.minTempC)!
+}
+
+function labelsAt(tempC: number, activity: Activity = 'scuba', rules?: SuitRuleSetId) {
+  return accessoriesFor(bandAt(tempC, activity, rules), tempC, activity).map((a) => a.label)
+}
+
+describe('accessoriesFor (scuba)', () => {
+  it('adds a rash guard and thin boots to a shorty', () => {
+    expect(labelsAt(27)).toEqual(['Rash guard', '3mm boots'])
+  })
+
+  it('sizes hood, gloves and boots with the suit', () => {
+    expect(labelsAt(22)).toEqual(['5mm hood', '3mm gloves', '5mm boots'])
+    expect(labelsAt(19)).toEqual(['7mm hood', '5mm gloves', '7mm boots'])
+  })
+
+  it('swaps the hood for a hooded vest near a wetsuit band\'s lower edge', () => {
+    const accessories = accessoriesFor(bandAt(20.5), 20.5)
+    expect(accessories.map((a) => a.label)).toEqual(['5mm hooded vest', '3mm gloves', '5mm boots'])
+    expect(accessories[0].layer).toBe('suit')
+  })
+
+  it('follows the selected rule set rather than fixed temperatures', () => {
+    // 19.8°C is a 7mm in the conservative preset but a 5mm with agency thresholds
+    expect(labelsAt(19.8)).toEqual(['7mm hood', '5mm gloves', '7mm boots'])
+    expect(labelsAt(19.8, 'scuba', 'agency')).toEqual(['5mm hood', '3mm gloves', '5mm boots'])
+  })
+
+  it('leaves boots off drysuits and adds dry gloves in very cold water', () => {
+    expect(labelsAt(12)).toEqual(['7mm hood', '5mm gloves'])
+    expect(labelsAt(6)).toEqual(['7mm hood', 'Dry gloves'])
+  })
+
+  it('quotes temperatures in the requested unit', () => {
+    const gloves = accessoriesFor(bandAt(6), 6, 'scuba', 'F').find((a) => a.kind === 'gloves')
+    expect(gloves?.reason).toContain('50°F')
+  })
+})
+
+describe('accessoriesFor (other activities)', () => {
+  it('adds socks and gloves for cold freediving', () => {
+    expect(labelsAt(26, 'freediving')).toEqual([])
+    expect(labelsAt(20, 'freediving')).toEqual(['3mm socks'])
+    expect(labelsAt(8, 'freediving')).toEqual(['5mm socks', '5mm gloves'])
+  })
+
+  it('adds a hood for cool snorkeling', () => {
+    expect(labelsAt(22, 'snorkeling')).toEqual([])
+    expect(labelsAt(18, 'snorkeling')).toEqual(['3mm hood'])
+  })
+
+  it('adds boots, then a hood, then mittens for colder surfing', () => {
+    expect(labelsAt(16, 'surfing')).toEqual(['3mm boots'])
+    expect(labelsAt(12, 'surfing')).toEqual(['3mm hood', '5mm boots'])
+    expect(labelsAt(8, 'surfing')).toEqual(['5mm hood', '5mm gloves', '7mm boots'])
+  })
+})
+
+describe('layeredCombination', () => {
+  it('joins the suit with its suit-layer pieces only', () => {
+    const accessories = accessoriesFor(bandAt(20.5), 20.5)
+    expect(layeredCombination('Full Wetsuit (5mm)', accessories)).toBe(
+      'Full Wetsuit (5mm) + 5mm hooded vest',
+    )
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * Accessory recommendations: hoods, gloves, boots and layering pieces
+ * Chosen from the suit class the rule set picked, so they follow the active
+ * rule set and activity and never contradict the suit; the temperature the
+ * suit was sized for (preference biases included) only decides layering
+ * near a band's edge and dry gloves
+ */
+
+import type { Activity } from '@/lib/activities'
+import type { SuitBand, SuitType } from '@/lib/suit-rules'
+import type { TempUnit } from '@/lib/units'
+import { formatTemp } from '@/lib/units'
+
+export const ACCESSORY_KINDS = [
+  'hood',
+  'gloves',
+  'boots',
+  'socks',
+  'hooded-vest',
+  'rash-guard',
+] as const
+
+export type AccessoryKind = (typeof ACCESSORY_KINDS)[number]
+
+export const ACCESSORY_LABELS: Record<AccessoryKind, string> = {
+  hood: 'hood',
+  gloves: 'gloves',
+  boots: 'boots',
+  socks: 'socks',
+  'hooded-vest': 'hooded vest',
+  'rash-guard': 'rash guard',
+}
+
+export interface Accessory {
+  kind: AccessoryKind
+  /** Neoprene thickness; absent for dry gloves and rash guards */
+  thicknessMm?: number
+  /** Worn under or over the suit (part of the combination) vs on the extremities */
+  layer: 'suit' | 'extremity'
+  label: string
+  reason: string
+}
+
+// Within this many °C of the band's lower edge, a layer beats the next suit up
+const LAYER_MARGIN_C = 1.5
+const WETSUITS: ReadonlyArray<SuitType> = ['full-3mm', 'full-5mm', 'full-7mm']
+// Fixed rather than per rule set: wet gloves stop working below this whatever the suit
+const DRY_GLOVES_BELOW_C = 10
+
+// Scuba hood, glove and boot thickness (mm) per suit class
+const SCUBA_EXTREMITIES_MM: Partial<
+  Record<SuitType, { hood?: number; gloves?: number; boots?: number }>
+> = {
+  'rash-guard': { boots: 3 },
+  shorty: { boots: 3 },
+  'full-3mm': { hood: 3, boots: 3 },
+  'full-5mm': { hood: 5, gloves: 3, boots: 5 },
+  'full-7mm': { hood: 7, gloves: 5, boots: 7 },
+  'semi-dry': { hood: 7, gloves: 5, boots: 7 },
+  // Drysuits have integrated boots or socks
+  drysuit: { hood: 7, gloves: 5 },
+}
+
+function neoprene(
+  kind: Exclude<AccessoryKind, 'rash-guard'>,
+  thicknessMm: number,
+  reason: string,
+): Accessory {
+  return {
+    kind,
+    thicknessMm,
+    layer: kind === 'hooded-vest' ? 'suit' : 'extremity',
+    label: `${thicknessMm}mm ${ACCESSORY_LABELS[kind]}`,
+    reason,
+  }
+}
+
+/**
+ * Accessories for a suit at the temperature it was sized for (°C)
+ * Ordered suit layers first, then head, hands and feet
+ * Reasons quoting a temperature use the requested unit
+ */
+export function accessoriesFor(
+  band: SuitBand,
+  adjustedTempC: number,
+  activity: Activity = 'scuba',
+  unit: TempUnit = 'C',
+): Array<Accessory> {
+  switch (activity) {
+    case 'scuba':
+      return scubaAccessories(band, adjustedTempC, unit)
+    case 'freediving':
+      return freedivingAccessories(band)
+    case 'snorkeling':
+      return snorkelingAccessories(band)
+    case 'surfing':
+      return surfingAccessories(band)
+  }
+}
+
+function scubaAccessories(
+  band: SuitBand,
+  adjustedTempC: number,
+  unit: TempUnit,
+): Array<Accessory> {
+  const suitType = band.rule.type
+  const t = adjustedTempC
+  const mm = SCUBA_EXTREMITIES_MM[suitType] ?? {}
+  const accessories: Array<Accessory> = []
+
+  if (suitType === 'shorty') {
+    accessories.push({
+      kind: 'rash-guard',
+      layer: 'suit',
+      label: 'Rash guard',
+      reason: 'Sun and sting protection for exposed arms and legs',
+    })
+  }
+
+  // Near the bottom of a wetsuit band, layer up instead of sizing up
+  const nearLowerEdge =
+    band.minTempC !== undefined && t - band.minTempC < LAYER_MARGIN_C
+  const hoodedVest = WETSUITS.includes(suitType) && nearLowerEdge
+  if (hoodedVest) {
+    // The vest's hood stands in for a separate one, so match its thickness
+    accessories.push(
+      neoprene(
+        'hooded-vest',
+        suitType === 'full-3mm' ? 3 : 5,
+        'Extra core warmth and a hood near the suit\'s lower limit',
+      ),
+    )
+  }
+
+  if (!hoodedVest && mm.hood !== undefined) {
+    accessories.push(
+      neoprene(
+        'hood',
+        mm.hood,
+        mm.hood <= 3
+          ? 'Optional; worth it on repeat dives'
+          : 'Most heat is lost through the head in cold water',
+      ),
+    )
+  }
+
+  if (suitType === 'drysuit' && t < DRY_GLOVES_BELOW_C) {
+    accessories.push({
+      kind: 'gloves',
+      layer: 'extremity',
+      label: 'Dry gloves',
+      reason: `Wet gloves lose dexterity quickly below ${formatTemp(DRY_GLOVES_BELOW_C, unit, 0)}`,
+    })
+  } else if (mm.gloves !== undefined) {
+    accessories.push(neoprene('gloves', mm.gloves, 'Keeps fingers working for the whole dive'))
+  }
+
+  if (mm.boots !== undefined) {
+    accessories.push(
+      neoprene('boots', mm.boots, 'For open-heel fins; thicker boots keep feet warm'),
+    )
+  }
+
+  return accessories
+}
+
+// The coldest band of a catalog is its catch-all
+function isColdestBand(band: SuitBand): boolean {
+  return band.minTempC === undefined
+}
+
+// Open-cell suits of 5mm and up have an integrated hood
+function freedivingAccessories(band: SuitBand): Array<Accessory> {
+  const accessories: Array<Accessory> = []
+  const suitType = band.rule.type
+  if (suitType === 'open-cell-5mm' || suitType === 'open-cell-7mm') {
+    accessories.push(
+      neoprene(
+        'socks',
+        suitType === 'open-cell-7mm' ? 5 : 3,
+        'Full-foot long-blade fins rub and chill bare feet',
+      ),
+    )
+  }
+  if (suitType === 'open-cell-7mm') {
+    accessories.push(
+      neoprene('gloves', isColdestBand(band) ? 5 : 3, 'Keeps fingers working for equalizing'),
+    )
+  }
+  return accessories
+}
+
+// Snorkeling fins are usually full-foot, so no boots
+function snorkelingAccessories(band: SuitBand): Array<Accessory> {
+  if (band.rule.type === 'full-5mm' || band.rule.type === 'full-7mm') {
+    return [neoprene('hood', 3, 'The head stays wet and in the wind at the surface')]
+  }
+  return []
+}
+
+function surfingAccessories(band: SuitBand): Array<Accessory> {
+  const accessories: Array<Accessory> = []
+  const coldest = isColdestBand(band)
+  if (band.rule.type === 'surf-5-4') {
+    accessories.push(neoprene('hood', coldest ? 5 : 3, 'Duck dives and wind chill the head'))
+  }
+  if (band.rule.type === 'surf-5-4' && coldest) {
+    accessories.push(neoprene('gloves', 5, 'Mittens keep hands paddling in very cold water'))
+  }
+  if (band.rule.type === 'surf-4-3' || band.rule.type === 'surf-5-4') {
+    accessories.push(
+      neoprene(
+        'boots',
+        band.rule.type === 'surf-4-3' ? 3 : coldest ? 7 : 5,
+        'Warm feet and grip on the board',
+      ),
+    )
+  }
+  return accessories
+}
+
+/**
+ * Suit plus its layering pieces, e.g. "Full Wetsuit (5mm) + 3mm hooded vest"
+ */
+export function layeredCombination(
+  suitLabel: string,
+  accessories: Array<Accessory>,
+): string {
+  return [
+    suitLabel,
+    ...accessories
+      .filter((a) => a.layer === 'suit')
+      .map((a) => a.label.charAt(0).toLowerCase() + a.label.slice(1)),
+  ].join(' + ')
+}
@@ -0,0 +1,91 @@
+/**
+ * Water activities and their suit catalogs
+ * Scuba uses the selectable rule sets in suit-rules; other activities have one
+ * catalog each, since they need very different thermal protection
+ */
+
+import type { SuitRuleSet, SuitRuleSetId } from '@/lib/suit-rules'
+import { DEFAULT_LABELS, getRuleSet, suitRuleSetSchema } from '@/lib/suit-rules'
+
+export const ACTIVITIES = ['scuba', 'freediving', 'snorkeling', 'surfing'] as const
+
+export type Activity = (typeof ACTIVITIES)[number]
+
+export const DEFAULT_ACTIVITY: Activity = 'scuba'
+
+export const ACTIVITY_LABELS: Record<Activity, string> = {
+  scuba: 'Scuba',
+  freediving: 'Freediving',
+  snorkeling: 'Snorkeling',
+  surfing: 'Surfing',
+}
+
+const CATALOGS = {
+  // Long, still breath-holds: open-cell neoprene, a class warmer than scuba
+  freediving: {
+    id: 'freediving',
+    name: 'Freediving',
+    description: 'Open-cell two-piece suits for breath-hold diving',
+    labels: { ...DEFAULT_LABELS, 'rash-guard': 'Lycra Skin Suit' },
+    rules: [
+      { type: 'rash-guard', minTempC: 29, note: 'bath-warm waters' },
+      { type: 'open-cell-3mm', minTempC: 24, note: 'warm waters' },
+      { type: 'open-cell-5mm', minTempC: 18, note: 'temperate waters, hood included' },
+      { type: 'open-cell-7mm', minTempC: 12, note: 'cold waters, add gloves and socks' },
+      { type: 'open-cell-7mm', note: 'very cold waters, keep sessions short' },
+    ],
+  },
+  // At the surface and barely moving, but sun is the bigger concern when warm
+  snorkeling: {
+    id: 'snorkeling',
+    name: 'Snorkeling',
+    description: 'Surface swimming with little exertion',
+    labels: DEFAULT_LABELS,
+    rules: [
+      { type: 'rash-guard', minTempC: 27, note: 'warm waters, sun protection' },
+      { type: 'shorty', minTempC: 24, note: 'warm waters' },
+      { type: 'full-3mm', minTempC: 21, note: 'mild waters' },
+      { type: 'full-5mm', minTempC: 17, note: 'cool waters' },
+      { type: 'full-7mm', note: 'cold for snorkeling, limit time in the water' },
+    ],
+  },
+  // Paddling keeps surfers warm; wind on wet neoprene is what chills them
+  surfing: {
+    id: 'surfing',
+    name: 'Surfing',
+    description: 'Flexible surf suits for high exertion at the surface',
+    labels: DEFAULT_LABELS,
+    rules: [
+      { type: 'rash-guard', minTempC: 25, note: 'boardshorts weather' },
+      { type: 'springsuit', minTempC: 22, note: 'warm waters' },
+      { type: 'surf-3-2', minTempC: 18, note: 'mild waters' },
+      { type: 'surf-4-3', minTempC: 14, note: 'cool waters, add boots' },
+      { type: 'surf-5-4', minTempC: 10, note: 'cold waters, add boots and hood' },
+      { type: 'surf-5-4', note: 'very cold waters, add boots, hood and mittens' },
+    ],
+  },
+} satisfies Record<Exclude<Activity, 'scuba'>, unknown>
+
+// Validated once at load, like the scuba presets
+const ACTIVITY_CATALOGS: Record<Exclude<Activity, 'scuba'>, SuitRuleSet> = {
+  freediving: suitRuleSetSchema.parse(CATALOGS.freediving),
+  snorkeling: suitRuleSetSchema.parse(CATALOGS.snorkeling),
+  surfing: suitRuleSetSchema.parse(CATALOGS.surfing),
+}
+
+export function isActivity(value: string): value is Activity {
+  return (ACTIVITIES as ReadonlyArray<string>).includes(value)
+}
+
+/**
+ * Rule set that applies to an activity
+ * The scuba preset choice only matters for scuba
+ */
+export function ruleSetFor(
+  activity: Activity = DEFAULT_ACTIVITY,
+  scubaRuleSet?: SuitRuleSetId,
+): SuitRuleSet {
+  return activity === 'scuba'
+    ? getRuleSet(scubaRuleSet)
+    : ACTIVITY_CATALOGS[activity]
+}
@@ -0,0 +1,87 @@
+/**
+ * Surface conditions at a dive site (air temperature, wind, wind chill)
+ * Delegates to the provider selected via ATMOSPHERIC_PROVIDER
+ */
+
+import type { AtmosphericProvider } from '@/lib/providers/types'
+import { env } from '@/env'
+import { openMeteoWeatherProvider } from '@/lib/providers/open-meteo-weather'
+import { entryAtLocalHour } from '@/lib/timezone'
+
+export type { AtmosphericProvider, AtmosphericSeries } from '@/lib/providers/types'
+
+/**
+ * Resolve the configured atmospheric provider, or null when disabled
+ */
+export function getAtmosphericProvider(): AtmosphericProvider | null {
+  return env.ATMOSPHERIC_PROVIDER === 'none' ? null : openMeteoWeatherProvider
+}
+
+export interface SurfaceConditions {
+  /** Air temperature at 2 m, °C */
+  airTempC: number
+  /** Wind speed at 10 m, km/h */
+  windSpeedKmh: number
+  /** Perceived temperature from wind chill, °C */
+  windChillC: number
+}
+
+/**
+ * Wind chill (°C) from air temperature (°C) and wind speed (km/h)
+ * North American / UK formula, only defined at or below 10°C and above
+ * 4.8 km/h; outside that range the air temperature is returned unchanged
+ */
+export function windChill(airTempC: number, windKmh: number): number {
+  if (airTempC > 10 || windKmh <= 4.8) return airTempC
+  const v = windKmh ** 0.16
+  return 13.12 + 0.6215 * airTempC - 11.37 * v + 0.3965 * airTempC * v
+}
+
+// Daytime hours averaged when no dive time is given (site-local)
+const DAY_START_HOUR = 8
+const DAY_END_HOUR = 17
+
+/**
+ * Fetch surface conditions for a site at a date and optional site-local hour
+ * Without an hour, averages daytime air and wind (when boats are out)
+ * Returns null when surface weather is disabled or unavailable
+ */
+export async function fetchSurfaceConditions(
+  lat: number,
+  lon: number,
+  dateISO: string,
+  hour?: number,
+): Promise<SurfaceConditions | null> {
+  const provider = getAtmosphericProvider()
+  if (!provider) return null
+
+  const series = await provider.fetchRange(lat, lon, dateISO, dateISO)
+  if (!series) return null
+
+  const hours =
+    hour !== undefined
+      ? [entryAtLocalHour(series.hourly, dateISO, hour)]
+      : series.hourly.filter((h) => {
+          const hh = Number(h.time.slice(11, 13))
+          return (
+            h.time.startsWith(dateISO) &&
+            hh >= DAY_START_HOUR &&
+            hh <= DAY_END_HOUR
+          )
+        })
+
+  const valid = hours.filter(
+    (h): h is NonNullable<typeof h> & { airTemp: number; windSpeed: number } =>
+      h !== null && h.airTemp !== null && h.windSpeed !== null,
+  )
+  if (!valid.length) return null
+
+  const airTempC = valid.reduce((a, h) => a + h.airTemp, 0) / valid.length
+  const windSpeedKmh = valid.reduce((a, h) => a + h.windSpeed, 0) / valid.length
+
+  return {
+    airTempC,
+    windSpeedKmh,
+    windChillC: windChill(airTempC, windSpeedKmh),
+  }
+}
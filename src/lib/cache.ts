@@ -1,9 +1,11 @@
 /**
  * Simple in-memory cache with TTL for server-side data
  * Automatically sweeps expired entries when size exceeds threshold
+ * Concurrent misses for the same key share one in-flight computation
  */
 class SimpleCache {
   private m = new Map<string, { v: any; exp: number }>()
+  private inflight = new Map<string, Promise<any>>()
 
   get(k: string): any | null {
     const e = this.m.get(k)
@@ -20,6 +22,39 @@ class SimpleCache {
     this.sweep()
   }
 
+  /**
+   * Return the cached value, or compute and cache it
+   * Callers arriving while a computation is in flight share its promise
+   * Null/undefined results and rejections are shared but not cached
+   * ttlSec may be a function of the result, e.g. shorter for partial data
+   * Resolves with the value and its source (see CacheSource)
+   */
+  async getOrCompute<T>(
+    k: string,
+    ttlSec: number | ((v: T) => number),
+    fn: () => Promise<T>,
+  ): Promise<CacheResult<T>> {
+    const hit = this.get(k)
+    if (hit !== null) return { value: hit, source: 'hit' }
+
+    const pending: Promise<T> | undefined = this.inflight.get(k)
+    if (pending) return { value: await pending, source: 'joined' }
+
+    const p = fn()
+      .then((v) => {
+        if (v !== null && v !== undefined) {
+          this.set(k, v, typeof ttlSec === 'function' ? ttlSec(v) : ttlSec)
+        }
+        return v
+      })
+      .finally(() => {
+        this.inflight.delete(k)
+      })
+
+    this.inflight.set(k, p)
+    return { value: await p, source: 'computed' }
+  }
+
   private sweep(): void {
     // Only sweep when cache grows large
     if (this.m.size < 200) return
@@ -35,4 +70,15 @@ class SimpleCache {
   }
 }
 
+/**
+ * Where a getOrCompute value came from: the cache, another request's
+ * in-flight computation (which this one still waited for), or a fresh one
+ */
+export type CacheSource = 'hit' | 'joined' | 'computed'
+
+export interface CacheResult<T> {
+  value: T
+  source: CacheSource
+}
+
 export const cache = new SimpleCache()
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import type { GearCloset } from '@/lib/closet'
+import { EMPTY_CLOSET, closetAdvice, gearClosetSchema } from '@/lib/closet'
+import { SUIT_LABELS, suitForTemp } from '@/lib/suit'
+import { SUIT_TYPES } from '@/lib/suit-rules'
+
+// Conservative scuba at 18°C: a 7mm wetsuit with a 7mm hood, 5mm gloves and 7mm boots
+const suit = suitForTemp(18)
+const fullKit: GearCloset['accessories'] = [
+  { kind: 'hood', thicknessMm: 7 },
+  { kind: 'gloves', thicknessMm: 5 },
+  { kind: 'boots', thicknessMm: 7 },
+]
+
+describe('closetAdvice', () => {
+  it('recommends renting or buying everything from an empty closet', () => {
+    const advice = closetAdvice(suit, SUIT_LABELS, EMPTY_CLOSET)
+
+    expect(advice.status).toBe('rent-or-buy')
+    expect(advice.missing).toEqual([
+      'Full Wetsuit (7mm)',
+      '7mm hood',
+      '5mm gloves',
+      '7mm boots',
+    ])
+    expect(advice.storeCategory).toBe('Wetsuits')
+  })
+
+  it('lists missing and too-thin accessories alongside an owned suit', () => {
+    const advice = closetAdvice(suit, SUIT_LABELS, {
+      suits: ['full-7mm'],
+      accessories: [
+        { kind: 'hood', thicknessMm: 7 },
+        { kind: 'gloves', thicknessMm: 3 },
+      ],
+    })
+
+    expect(advice.status).toBe('owned')
+    expect(advice.missing).toEqual(['5mm gloves', '7mm boots'])
+    expect(advice.message).toBe('You own the suit; add 5mm gloves, 7mm boots')
+    expect(advice.storeCategory).toBe('Accessories')
+  })
+
+  it('has nothing to add when the closet covers the recommendation', () => {
+    const advice = closetAdvice(suit, SUIT_LABELS, {
+      suits: ['full-7mm'],
+      accessories: fullKit,
+    })
+
+    expect(advice).toEqual({
+      status: 'owned',
+      message: 'You already own this',
+      missing: [],
+      storeCategory: null,
+    })
+  })
+
+  it('accepts a suit one step warmer', () => {
+    const advice = closetAdvice(suit, SUIT_LABELS, {
+      suits: ['semi-dry'],
+      accessories: fullKit,
+    })
+
+    expect(advice.status).toBe('substitute')
+    expect(advice.missing).toEqual([])
+  })
+
+  it('does not accept a suit that is too thin on its own', () => {
+    const advice = closetAdvice(suit, SUIT_LABELS, {
+      suits: ['full-5mm'],
+      accessories: fullKit,
+    })
+
+    expect(advice.status).toBe('rent-or-buy')
+    expect(advice.missing).toEqual(['Full Wetsuit (7mm)'])
+  })
+
+  it('layers a suit one step too thin with an owned hooded vest', () => {
+    const advice = closetAdvice(suit, SUIT_LABELS, {
+      suits: ['full-5mm'],
+      accessories: [{ kind: 'hooded-vest', thicknessMm: 5 }, ...fullKit.slice(1)],
+    })
+
+    expect(advice.status).toBe('layered')
+    expect(advice.missing).toEqual([])
+  })
+})
+
+describe('gearClosetSchema', () => {
+  it('rejects more suits than there are suit types', () => {
+    const suits = [...SUIT_TYPES, 'shorty']
+    expect(gearClosetSchema.safeParse({ suits, accessories: [] }).success).toBe(false)
+  })
+
+  it('rejects a closet with too many accessories', () => {
+    const accessories = Array.from({ length: 100 }, () => ({ kind: 'hood', thicknessMm: 5 }))
+    expect(gearClosetSchema.safeParse({ suits: [], accessories }).success).toBe(false)
+  })
+})
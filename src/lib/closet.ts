@@ -0,0 +1,140 @@
+/**
+ * Personal gear closet and buy/rent gap analysis
+ * Compares a recommendation against the exposure gear a user owns
+ */
+
+import { z } from 'zod'
+import type { Accessory } from '@/lib/accessories'
+import type { Suit } from '@/lib/suit'
+import type { SuitType } from '@/lib/suit-rules'
+import { ACCESSORY_KINDS } from '@/lib/accessories'
+import { SUIT_TYPES } from '@/lib/suit-rules'
+
+// The closet holds each suit type and one piece per accessory kind at most
+export const gearClosetSchema = z.object({
+  suits: z.array(z.enum(SUIT_TYPES)).max(SUIT_TYPES.length),
+  accessories: z
+    .array(
+      z.object({
+        kind: z.enum(ACCESSORY_KINDS),
+        /** Omitted for gear without a neoprene thickness, e.g. rash guards */
+        thicknessMm: z.number().positive().optional(),
+      }),
+    )
+    .max(ACCESSORY_KINDS.length),
+})
+
+export type GearCloset = z.infer<typeof gearClosetSchema>
+
+export const EMPTY_CLOSET: GearCloset = { suits: [], accessories: [] }
+
+export type GearStatus = 'owned' | 'substitute' | 'layered' | 'rent-or-buy'
+
+export interface GearAdvice {
+  status: GearStatus
+  message: string
+  /** Recommended items the closet lacks */
+  missing: Array<string>
+  /** Store category for the missing items, null when nothing is missing */
+  storeCategory: 'Wetsuits' | 'Accessories' | null
+}
+
+// Suits in warmth order; substitutes are only looked for within a family
+const SUIT_FAMILIES: Array<ReadonlyArray<SuitType>> = [
+  ['rash-guard', 'shorty', 'full-3mm', 'full-5mm', 'full-7mm', 'semi-dry', 'drysuit'],
+  ['rash-guard', 'open-cell-3mm', 'open-cell-5mm', 'open-cell-7mm'],
+  ['rash-guard', 'springsuit', 'surf-3-2', 'surf-4-3', 'surf-5-4'],
+]
+
+/**
+ * Owned suit one step warmer (+1) or colder (-1) than the recommended one
+ */
+function ownedNeighbour(
+  closet: GearCloset,
+  type: SuitType,
+  step: 1 | -1,
+): SuitType | null {
+  for (const family of SUIT_FAMILIES) {
+    const i = family.indexOf(type)
+    if (i === -1) continue
+    const neighbour = family.at(i + step)
+    if (i + step >= 0 && neighbour && closet.suits.includes(neighbour)) {
+      return neighbour
+    }
+  }
+  return null
+}
+
+function ownsAccessory(closet: GearCloset, accessory: Accessory): boolean {
+  return closet.accessories.some(
+    (a) =>
+      a.kind === accessory.kind &&
+      (accessory.thicknessMm === undefined ||
+        (a.thicknessMm ?? 0) >= accessory.thicknessMm),
+  )
+}
+
+/**
+ * What the user already has for a recommended suit and what to rent or buy
+ * A suit one step warmer will do; one step colder will do with a hooded vest
+ * (wetsuits only - a vest doesn't turn a semi-dry into a drysuit)
+ */
+export function closetAdvice(
+  suit: Suit,
+  labels: Record<SuitType, string>,
+  closet: GearCloset,
+): GearAdvice {
+  const missingAccessories = suit.accessories
+    .filter((a) => !ownsAccessory(closet, a))
+    .map((a) => a.label.toLowerCase())
+  const accessoryGap = {
+    missing: missingAccessories,
+    storeCategory: missingAccessories.length > 0 ? ('Accessories' as const) : null,
+  }
+  const alsoAdd =
+    missingAccessories.length > 0 ? `; add ${missingAccessories.join(', ')}` : ''
+
+  if (closet.suits.includes(suit.type)) {
+    return {
+      status: 'owned',
+      message:
+        missingAccessories.length > 0
+          ? `You own the suit${alsoAdd}`
+          : 'You already own this',
+      ...accessoryGap,
+    }
+  }
+
+  const warmer = ownedNeighbour(closet, suit.type, 1)
+  if (warmer) {
+    return {
+      status: 'substitute',
+      message: `Your ${labels[warmer]} will do, if a little warm${alsoAdd}`,
+      ...accessoryGap,
+    }
+  }
+
+  const colder = ownedNeighbour(closet, suit.type, -1)
+  const ownsVest = closet.accessories.some((a) => a.kind === 'hooded-vest')
+  if (colder && ownsVest && colder !== 'rash-guard' && suit.type !== 'drysuit') {
+    // The vest's own hood covers a separate hood
+    const missing = suit.accessories
+      .filter((a) => a.kind !== 'hood' && a.kind !== 'hooded-vest' && !ownsAccessory(closet, a))
+      .map((a) => a.label.toLowerCase())
+    return {
+      status: 'layered',
+      message: `Your ${labels[colder]} plus a hooded vest will do${
+        missing.length > 0 ? `; add ${missing.join(', ')}` : ''
+      }`,
+      missing,
+      storeCategory: missing.length > 0 ? 'Accessories' : null,
+    }
+  }
+
+  return {
+    status: 'rent-or-buy',
+    message: `Rent or buy a ${labels[suit.type]}${alsoAdd}`,
+    missing: [labels[suit.type], ...missingAccessories],
+    storeCategory: 'Wetsuits',
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_COMFORT_MINUTES,
+  comfortableMinutes,
+  drysuitUndergarment,
+  preferenceFactors,
+  suitConfidence,
+} from '@/lib/comfort'
+import { getRuleSet, ruleBands } from '@/lib/suit-rules'
+
+const conservativeBands = ruleBands(getRuleSet('conservative'))
+const bandOf = (type: string) => conservativeBands.find((b) => b.rule.type === type)!
+
+describe('preferenceFactors', () => {
+  it('is empty for default preferences', () => {
+    expect(preferenceFactors({})).toEqual([])
+  })
+
+  it('reports each non-zero bias with its source', () => {
+    expect(
+      preferenceFactors({
+        runsCold: true,
+        bodyComposition: 'lean',
+        sex: 'female',
+        exertion: 'high',
+      }),
+    ).toEqual([
+      { factor: 'runsCold', biasC: -1 },
+      { factor: 'bodyComposition', biasC: -1 },
+      { factor: 'sex', biasC: -0.5 },
+      { factor: 'exertion', biasC: 0.5 },
+    ])
+  })
+
+  it('caps the repeat-dive and fatigue biases', () => {
+    const biases = Object.fromEntries(
+      preferenceFactors({ divesPerDay: 8, consecutiveDays: 30 }).map((f) => [f.factor, f.biasC]),
+    )
+    expect(biases).toEqual({ divesPerDay: -1.5, consecutiveDays: -1 })
+  })
+
+  it('only penalises short surface intervals between repeat dives', () => {
+    expect(preferenceFactors({ surfaceIntervalMinutes: 30 })).toEqual([])
+    expect(
+      preferenceFactors({ divesPerDay: 2, surfaceIntervalMinutes: 30 }).map((f) => f.factor),
+    ).toContain('surfaceIntervalMinutes')
+    expect(
+      preferenceFactors({ divesPerDay: 2, surfaceIntervalMinutes: 90 }).map((f) => f.factor),
+    ).not.toContain('surfaceIntervalMinutes')
+  })
+})
+
+describe('comfortableMinutes', () => {
+  it('caps at two hours in warm water', () => {
+    expect(comfortableMinutes('full-3mm', 28)).toBe(MAX_COMFORT_MINUTES)
+  })
+
+  it('halves for every few degrees colder and rounds down to 5 minutes', () => {
+    const warmer = comfortableMinutes('full-5mm', 16)
+    const colder = comfortableMinutes('full-5mm', 13)
+    expect(colder).toBeLessThan(warmer)
+    expect(colder % 5).toBe(0)
+    expect(colder).toBeCloseTo(warmer / 2, -1)
+  })
+
+  it('lasts longer in a warmer suit at the same temperature', () => {
+    expect(comfortableMinutes('full-7mm', 15)).toBeGreaterThan(
+      comfortableMinutes('full-3mm', 15),
+    )
+  })
+})
+
+describe('suitConfidence', () => {
+  it('is certain away from the band edges', () => {
+    expect(suitConfidence(18, bandOf('full-7mm'), 120)).toBe(1)
+  })
+
+  it('drops to one half right at a threshold', () => {
+    expect(suitConfidence(16, bandOf('full-7mm'), 120)).toBe(0.5)
+  })
+
+  it('drops when the dive outlasts the comfort estimate', () => {
+    expect(suitConfidence(18, bandOf('full-7mm'), 30, 60)).toBe(0.5)
+    expect(suitConfidence(18, bandOf('full-7mm'), 45, 60)).toBe(0.75)
+  })
+})
+
+describe('drysuitUndergarment', () => {
+  it('gets heavier as the water cools', () => {
+    expect(drysuitUndergarment(14)).toBe('light')
+    expect(drysuitUndergarment(8)).toBe('medium')
+    expect(drysuitUndergarment(3)).toBe('heavy')
+  })
+
+  it('adds warmth for dives longer than 45 minutes', () => {
+    expect(drysuitUndergarment(12.5, 45)).toBe('light')
+    expect(drysuitUndergarment(12.5, 75)).toBe('medium')
+  })
+})
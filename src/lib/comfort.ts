@@ -0,0 +1,161 @@
+/**
+ * Thermal comfort model
+ * Personal factors shift the water temperature a diver "feels" (a bias in °C),
+ * and suit insulation sets how long they stay comfortable at that temperature
+ * Coefficients are rules of thumb for recreational planning, not physiology
+ */
+
+import type { SuitBand, SuitType } from '@/lib/suit-rules'
+import type { UserPrefs } from '@/lib/suit'
+
+export interface ComfortFactor {
+  /** Which preference produced the bias, e.g. "runsCold" */
+  factor: keyof UserPrefs
+  /** Shift applied to the water temperature, °C (negative = feels colder) */
+  biasC: number
+}
+
+const BODY_COMPOSITION_BIAS_C = { lean: -1, average: 0, 'high-fat': 0.5 } as const
+// Lower muscle mass and more surface area per kg lose heat faster on average
+const SEX_BIAS_C = { female: -0.5, male: 0 } as const
+// Finning hard warms a diver; drifting or photographing chills them
+const EXERTION_BIAS_C = { low: -0.5, moderate: 0, high: 0.5 } as const
+
+// Each dive after the first starts a little colder, up to a cap
+const REPEAT_DIVE_BIAS_C = -0.5
+const MAX_REPEAT_DIVE_BIAS_C = -1.5
+// Shorter surface intervals than this don't let a diver rewarm between dives
+const REWARM_INTERVAL_MINUTES = 60
+const SHORT_INTERVAL_BIAS_C = -0.5
+// Fatigue builds after two days of diving in a row
+const FATIGUE_FREE_DAYS = 2
+const FATIGUE_BIAS_PER_DAY_C = -0.25
+const MAX_FATIGUE_BIAS_C = -1
+
+/**
+ * Temperature shifts from the diver's preferences, zero-valued factors omitted
+ * Long dives are handled separately (see comfortableMinutes)
+ */
+export function preferenceFactors(prefs: UserPrefs): Array<ComfortFactor> {
+  const divesPerDay = prefs.divesPerDay ?? 1
+  const days = prefs.consecutiveDays ?? 1
+
+  const factors: Array<ComfortFactor> = [
+    { factor: 'runsCold', biasC: prefs.runsCold ? -1 : 0 },
+    {
+      factor: 'bodyComposition',
+      biasC: BODY_COMPOSITION_BIAS_C[prefs.bodyComposition ?? 'average'],
+    },
+    { factor: 'sex', biasC: prefs.sex ? SEX_BIAS_C[prefs.sex] : 0 },
+    { factor: 'exertion', biasC: EXERTION_BIAS_C[prefs.exertion ?? 'moderate'] },
+    {
+      factor: 'divesPerDay',
+      biasC: Math.max(
+        MAX_REPEAT_DIVE_BIAS_C,
+        REPEAT_DIVE_BIAS_C * Math.max(0, divesPerDay - 1),
+      ),
+    },
+    {
+      factor: 'surfaceIntervalMinutes',
+      biasC:
+        divesPerDay > 1 &&
+        prefs.surfaceIntervalMinutes !== undefined &&
+        prefs.surfaceIntervalMinutes < REWARM_INTERVAL_MINUTES
+          ? SHORT_INTERVAL_BIAS_C
+          : 0,
+    },
+    {
+      factor: 'consecutiveDays',
+      biasC: Math.max(
+        MAX_FATIGUE_BIAS_C,
+        FATIGUE_BIAS_PER_DAY_C * Math.max(0, days - FATIGUE_FREE_DAYS),
+      ),
+    },
+  ]
+
+  return factors.filter((f) => f.biasC !== 0)
+}
+
+// Water temperature a suit adds, in effect, before a diver starts to chill
+// Surf suit values include the heat a paddling surfer generates
+const SUIT_INSULATION_C: Record<SuitType, number> = {
+  'rash-guard': 2,
+  shorty: 4,
+  'full-3mm': 7,
+  'full-5mm': 10,
+  'full-7mm': 13,
+  'semi-dry': 17,
+  drysuit: 28,
+  'open-cell-3mm': 7,
+  'open-cell-5mm': 12,
+  'open-cell-7mm': 16,
+  springsuit: 7,
+  'surf-3-2': 11,
+  'surf-4-3': 15,
+  'surf-5-4': 19,
+}
+// Effective temperature at which a diver stays comfortable for a long dive
+const NEUTRAL_EFFECTIVE_C = 34
+// Comfort time halves for every this many °C below neutral
+const HALVING_C = 3
+export const MAX_COMFORT_MINUTES = 120
+
+/**
+ * Estimated minutes before a diver in this suit gets cold
+ * feltTempC is the water temperature after preference biases
+ * Rounded down to 5 minutes and capped at two hours
+ */
+export function comfortableMinutes(suitType: SuitType, feltTempC: number): number {
+  const effective = feltTempC + SUIT_INSULATION_C[suitType]
+  const minutes =
+    MAX_COMFORT_MINUTES * 2 ** ((effective - NEUTRAL_EFFECTIVE_C) / HALVING_C)
+  return Math.min(MAX_COMFORT_MINUTES, Math.floor(minutes / 5) * 5)
+}
+
+// Margin to the nearest threshold beyond which a recommendation is certain
+const CONFIDENT_MARGIN_C = 2
+
+/**
+ * Confidence (0-1) that the suit class is right
+ * Low near a band edge, where a degree either way flips the class, and when
+ * the planned dive outlasts the comfort estimate
+ */
+export function suitConfidence(
+  feltTempC: number,
+  band: SuitBand,
+  minutes: number,
+  diveMinutes?: number,
+): number {
+  const margins = [band.minTempC, band.maxTempC]
+    .filter((t) => t !== undefined)
+    .map((t) => Math.abs(feltTempC - t))
+  const margin = margins.length > 0 ? Math.min(...margins) : CONFIDENT_MARGIN_C
+
+  let confidence = 0.5 + (0.5 * Math.min(margin, CONFIDENT_MARGIN_C)) / CONFIDENT_MARGIN_C
+  if (diveMinutes && diveMinutes > minutes) {
+    confidence *= Math.max(0.5, minutes / diveMinutes)
+  }
+  return Math.round(confidence * 100) / 100
+}
+
+export type Undergarment = 'light' | 'medium' | 'heavy'
+
+// Lowest felt temperature each weight is warm enough for; heavy below that
+const LIGHT_UNDERGARMENT_MIN_C = 12
+const MEDIUM_UNDERGARMENT_MIN_C = 6
+// Drysuit dives longer than this need about a degree more warmth per half hour
+const UNDERGARMENT_BASE_MINUTES = 45
+
+/**
+ * Drysuit undergarment weight for the felt water temperature (which already
+ * includes runsCold and the other preference biases) and planned dive length
+ */
+export function drysuitUndergarment(
+  feltTempC: number,
+  diveMinutes?: number,
+): Undergarment {
+  const extraMinutes = Math.max(0, (diveMinutes ?? 0) - UNDERGARMENT_BASE_MINUTES)
+  const t = feltTempC - extraMinutes / 30
+  if (t >= LIGHT_UNDERGARMENT_MIN_C) return 'light'
+  return t >= MEDIUM_UNDERGARMENT_MIN_C ? 'medium' : 'heavy'
+}
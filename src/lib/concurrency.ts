@@ -0,0 +1,28 @@
+/**
+ * Async helpers for bounded fan-out to upstream APIs
+ */
+
+/**
+ * Map over items with at most `limit` promises in flight
+ * Results keep input order; the first rejection rejects the whole map,
+ * so callers that want partial results should catch inside `fn`
+ */
+export async function mapWithConcurrency<T, TResult>(
+  items: Array<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<TResult>,
+): Promise<Array<TResult>> {
+  const results: Array<TResult> = new Array(items.length)
+  let next = 0
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i], i)
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, worker)
+  await Promise.all(workers)
+  return results
+}
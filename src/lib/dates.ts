@@ -53,6 +53,37 @@ export function getForecastDates(dateISO: string, daysRange: number): Array<stri
   return dates
 }
 
+/**
+ * Group dates into as few contiguous inclusive [start, end] windows as possible
+ * Duplicates are ignored; input order does not matter
+ */
+export function groupDateRanges(
+  dates: Array<string>,
+): Array<{ start: string; end: string }> {
+  const sorted = [...new Set(dates)].sort()
+  const ranges: Array<{ start: string; end: string }> = []
+
+  for (const date of sorted) {
+    const last = ranges.at(-1)
+    if (last && date <= addDays(last.end, 1)) {
+      last.end = date
+    } else {
+      ranges.push({ start: date, end: date })
+    }
+  }
+
+  return ranges
+}
+
+/**
+ * Day of year (1-366) for an ISO date string
+ */
+export function dayOfYear(dateISO: string): number {
+  const d = Date.parse(dateISO + 'T00:00:00Z')
+  const start = Date.UTC(Number(dateISO.slice(0, 4)), 0, 1)
+  return Math.round((d - start) / 86_400_000) + 1
+}
+
 /**
  * Validate ISO date format (basic check)
  */
@@ -0,0 +1,51 @@
+/**
+ * Geographic helpers
+ */
+
+const EARTH_RADIUS_KM = 6371
+
+/**
+ * Great-circle distance between two coordinates in km (haversine)
+ */
+export function distanceKm(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLon = toRad(b.lon - a.lon)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * Cells of the square ring at Chebyshev distance `ring` around a center
+ * Ring 0 is the center itself; ring r has 8r cells spaced `step` degrees apart
+ */
+export function ringCells(
+  center: { lat: number; lon: number },
+  ring: number,
+  step: number,
+): Array<{ lat: number; lon: number }> {
+  if (ring === 0) return [center]
+
+  const cells: Array<{ lat: number; lon: number }> = []
+  for (let dy = -ring; dy <= ring; dy++) {
+    for (let dx = -ring; dx <= ring; dx++) {
+      if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue
+      const lat = center.lat + dy * step
+      if (lat < -90 || lat > 90) continue
+      cells.push({
+        lat: Math.round(lat * 10000) / 10000,
+        lon: Math.round(wrapLon(center.lon + dx * step) * 10000) / 10000,
+      })
+    }
+  }
+  return cells
+}
+
+function wrapLon(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180
+}
@@ -0,0 +1,54 @@
+/**
+ * Sea-state variables available alongside SST (waves, swell, currents)
+ * Keys match Open-Meteo Marine API hourly variable names
+ */
+
+export const MARINE_VARIABLES = {
+  wave_height: { label: 'Waves', unit: 'm', aggregate: 'max' },
+  wave_period: { label: 'Wave period', unit: 's', aggregate: 'mean' },
+  wave_direction: { label: 'Wave dir', unit: '°', aggregate: 'direction' },
+  swell_wave_height: { label: 'Swell', unit: 'm', aggregate: 'max' },
+  swell_wave_period: { label: 'Swell period', unit: 's', aggregate: 'mean' },
+  swell_wave_direction: { label: 'Swell dir', unit: '°', aggregate: 'direction' },
+  ocean_current_velocity: { label: 'Current', unit: 'km/h', aggregate: 'max' },
+  ocean_current_direction: { label: 'Current dir', unit: '°', aggregate: 'direction' },
+} as const
+
+export type MarineVariable = keyof typeof MARINE_VARIABLES
+
+export type MarineValues = Partial<Record<MarineVariable, number | null>>
+
+export const DEFAULT_MARINE_VARIABLES: Array<MarineVariable> = [
+  'wave_height',
+  'swell_wave_period',
+  'ocean_current_velocity',
+]
+
+export function isMarineVariable(value: string): value is MarineVariable {
+  return Object.hasOwn(MARINE_VARIABLES, value)
+}
+
+/**
+ * Collapse one day of hourly values into a single number
+ * Heights and current speed use the daily max (what you'd plan around),
+ * periods the mean, and directions a circular mean
+ */
+export function aggregateMarine(
+  variable: MarineVariable,
+  values: Array<number>,
+): number | null {
+  if (!values.length) return null
+
+  switch (MARINE_VARIABLES[variable].aggregate) {
+    case 'max':
+      return Math.max(...values)
+    case 'mean':
+      return values.reduce((a, b) => a + b, 0) / values.length
+    case 'direction': {
+      const toRad = (deg: number) => (deg * Math.PI) / 180
+      const x = values.reduce((sum, d) => sum + Math.cos(toRad(d)), 0)
+      const y = values.reduce((sum, d) => sum + Math.sin(toRad(d)), 0)
+      return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import type { PersonalPrefs } from '@/lib/prefs'
+import { prefsFromQuery, prefsQuerySchema, prefsToQuery } from '@/lib/prefs'
+
+const fromQueryString = (query: string) =>
+  prefsFromQuery(prefsQuerySchema.parse(Object.fromEntries(new URLSearchParams(query))))
+
+describe('prefsToQuery', () => {
+  it('is empty when nothing is set', () => {
+    expect(prefsToQuery({})).toBe('')
+  })
+
+  it('writes keys in a stable order regardless of insertion order', () => {
+    expect(prefsToQuery({ diveMinutes: 60, runsCold: true })).toBe(
+      'runsCold=true&diveMinutes=60',
+    )
+  })
+})
+
+describe('prefsFromQuery', () => {
+  it('round-trips every preference through the query string', () => {
+    const prefs: PersonalPrefs = {
+      runsCold: true,
+      diveMinutes: 60,
+      bodyComposition: 'lean',
+      sex: 'female',
+      divesPerDay: 3,
+      surfaceIntervalMinutes: 45,
+      exertion: 'low',
+      consecutiveDays: 5,
+    }
+    expect(fromQueryString(prefsToQuery(prefs))).toEqual(prefs)
+  })
+
+  it('converts query strings to booleans and integers', () => {
+    expect(fromQueryString('runsCold=1&divesPerDay=2')).toEqual({
+      runsCold: true,
+      divesPerDay: 2,
+    })
+    expect(fromQueryString('runsCold=0')).toEqual({ runsCold: false })
+  })
+
+  it('drops unset preferences and unrelated params', () => {
+    expect(fromQueryString('lat=10&exertion=high')).toEqual({ exertion: 'high' })
+    expect(fromQueryString('')).toEqual({})
+  })
+
+  it('rejects out-of-range and malformed values', () => {
+    for (const query of [
+      'diveMinutes=0',
+      'diveMinutes=1.5',
+      'divesPerDay=9',
+      'surfaceIntervalMinutes=abc',
+      'runsCold=yes',
+      'sex=other',
+    ]) {
+      const params = Object.fromEntries(new URLSearchParams(query))
+      expect(prefsQuerySchema.safeParse(params).success, query).toBe(false)
+    }
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Personal preferences shared by the preferences panel, the map URL and
+ * /api/sst/point
+ * Adding a field here (and to UserPrefs) wires it through all three
+ */
+
+import { z } from 'zod'
+import type { UserPrefs } from '@/lib/suit'
+
+/** UserPrefs minus the rule set and activity, which have their own params */
+export type PersonalPrefs = Omit<UserPrefs, 'ruleSet' | 'activity'>
+
+// Stored and URL form
+export const personalPrefsSchema = z.object({
+  runsCold: z.boolean().optional(),
+  diveMinutes: z.number().int().min(1).max(600).optional(),
+  bodyComposition: z.enum(['lean', 'average', 'high-fat']).optional(),
+  sex: z.enum(['female', 'male']).optional(),
+  divesPerDay: z.number().int().min(1).max(8).optional(),
+  surfaceIntervalMinutes: z.number().int().min(0).max(720).optional(),
+  exertion: z.enum(['low', 'moderate', 'high']).optional(),
+  consecutiveDays: z.number().int().min(1).max(60).optional(),
+}) satisfies z.ZodType<PersonalPrefs>
+
+const PREF_KEYS = personalPrefsSchema.keyof().options
+
+const intParam = (min: number, max: number) =>
+  z.coerce.number().int().min(min).max(max).optional()
+
+// Query-string form, e.g. runsCold=true&diveMinutes=60
+export const prefsQuerySchema = z.object({
+  runsCold: z
+    .enum(['true', 'false', '1', '0'])
+    .optional()
+    .transform((v) => (v === undefined ? undefined : v === 'true' || v === '1')),
+  diveMinutes: intParam(1, 600),
+  bodyComposition: personalPrefsSchema.shape.bodyComposition,
+  sex: personalPrefsSchema.shape.sex,
+  divesPerDay: intParam(1, 8),
+  surfaceIntervalMinutes: intParam(0, 720),
+  exertion: personalPrefsSchema.shape.exertion,
+  consecutiveDays: intParam(1, 60),
+}) satisfies z.ZodType<PersonalPrefs, unknown>
+
+/**
+ * Pick the preference fields out of parsed query params, dropping unset ones
+ */
+export function prefsFromQuery(query: z.output<typeof prefsQuerySchema>): PersonalPrefs {
+  return Object.fromEntries(
+    PREF_KEYS.flatMap((key) =>
+      query[key] !== undefined ? [[key, query[key]]] : [],
+    ),
+  )
+}
+
+/**
+ * Query string for the set preferences, in a stable order (usable as a cache key)
+ * Empty when nothing is set
+ */
+export function prefsToQuery(prefs: PersonalPrefs): string {
+  const params = new URLSearchParams()
+  for (const key of PREF_KEYS) {
+    const value = prefs[key]
+    if (value !== undefined) params.set(key, String(value))
+  }
+  return params.toString()
+}
@@ -0,0 +1,260 @@
+/**
+ * Local gridded-file adapter for offline SST lookups
+ * Reads one file per day from a data directory, e.g. NOAA OISST exports:
+ *   <dir>/YYYY-MM-DD.json - { lat: number[], lon: number[], sst: (number | null)[][] }
+ *                           (sst indexed [latIndex][lonIndex], as dumped from NetCDF)
+ *   <dir>/YYYY-MM-DD.csv  - header with lat/latitude, lon/longitude and sst columns
+ *                           (non-numeric rows such as ERDDAP unit rows are skipped)
+ * Files are daily means, so hour lookups return the day value
+ */
+
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { SSTPoint, SSTProvider, SSTSeries, SampledCell } from './types'
+import { addDays } from '@/lib/dates'
+import { mapWithConcurrency } from '@/lib/concurrency'
+
+interface Grid {
+  lats: Array<number> // ascending
+  lons: Array<number> // ascending
+  values: Float32Array // row-major [lat][lon], NaN for missing
+}
+
+// Parsed grids are large (a global 0.25° day is ~1M cells), keep only a few
+const MAX_CACHED_GRIDS = 8
+// Grids parsed at once for a date range; each day keeps only its sample,
+// so memory stays at the cache plus this many grids however long the range
+const RANGE_LOAD_CONCURRENCY = 2
+
+export function createLocalProvider(dataDir: string): SSTProvider {
+  const grids = new Map<string, Promise<Grid | null>>()
+
+  function loadGrid(dateISO: string): Promise<Grid | null> {
+    const existing = grids.get(dateISO)
+    if (existing) return existing
+
+    const pending = readGrid(dataDir, dateISO)
+    grids.set(dateISO, pending)
+    if (grids.size > MAX_CACHED_GRIDS) {
+      // Map preserves insertion order, so the first key is the oldest
+      const oldest = grids.keys().next().value
+      if (oldest !== undefined) grids.delete(oldest)
+    }
+    return pending
+  }
+
+  async function fetchRange(
+    lat: number,
+    lon: number,
+    startISO: string,
+    endISO: string,
+  ): Promise<SSTSeries> {
+    const dates: Array<string> = []
+    for (let d = startISO; d <= endISO; d = addDays(d, 1)) dates.push(d)
+
+    const samples = await mapWithConcurrency(
+      dates,
+      RANGE_LOAD_CONCURRENCY,
+      async (date) => {
+        const grid = await loadGrid(date)
+        return {
+          date,
+          temp: grid ? sampleGrid(grid, lat, lon) : null,
+          cell: grid ? gridCell(grid, lat, lon) : null,
+        }
+      },
+    )
+    const daily = samples.map(({ date, temp }) => ({ date, temp }))
+
+    // Report the cell from the first day that has a file covering the point
+    const cell: SampledCell | null =
+      samples.find((s) => s.cell !== null)?.cell ?? null
+
+    // Daily means only, no hourly series; gridded files carry no site time zone
+    return { daily, hourly: [], timezone: null, cell }
+  }
+
+  async function fetchGrid(
+    coords: Array<{ lat: number; lon: number }>,
+    dateISO: string,
+  ): Promise<Array<SSTPoint>> {
+    if (!coords.length) return []
+
+    const grid = await loadGrid(dateISO)
+    return coords.map((c) => ({
+      lat: c.lat,
+      lon: c.lon,
+      temp: grid ? sampleGrid(grid, c.lat, c.lon) : null,
+    }))
+  }
+
+  return {
+    id: 'local',
+    source: {
+      name: 'Local SST files',
+      dataset: 'Gridded daily means',
+      // Depends on the files; reported per cell in point responses
+      resolutionDeg: null,
+    },
+    fetchRange,
+    fetchGrid,
+  }
+}
+
+async function readGrid(dataDir: string, dateISO: string): Promise<Grid | null> {
+  for (const ext of ['json', 'csv'] as const) {
+    const file = path.join(dataDir, `${dateISO}.${ext}`)
+    let text: string
+    try {
+      text = await readFile(file, 'utf8')
+    } catch {
+      continue // Try next format
+    }
+
+    try {
+      return ext === 'json' ? parseJsonGrid(text) : parseCsvGrid(text)
+    } catch (err) {
+      console.error(`Failed to parse local SST file ${file}:`, err)
+      return null
+    }
+  }
+
+  console.warn(`No local SST file for ${dateISO} in ${dataDir}`)
+  return null
+}
+
+function parseJsonGrid(text: string): Grid {
+  const j = JSON.parse(text)
+  const lats: Array<number> = j.lat ?? j.latitude
+  const lons: Array<number> = j.lon ?? j.longitude
+  const rows: Array<Array<number | null>> = j.sst
+
+  if (!Array.isArray(lats) || !Array.isArray(lons) || !Array.isArray(rows)) {
+    throw new Error('Expected lat, lon and sst arrays')
+  }
+
+  const values = new Float32Array(lats.length * lons.length).fill(NaN)
+  rows.forEach((row, i) => {
+    row.forEach((v, k) => {
+      if (typeof v === 'number') values[i * lons.length + k] = v
+    })
+  })
+
+  return orientAscending({ lats, lons, values })
+}
+
+function parseCsvGrid(text: string): Grid {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim())
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase())
+  const latCol = header.findIndex((h) => h === 'lat' || h === 'latitude')
+  const lonCol = header.findIndex((h) => h === 'lon' || h === 'longitude')
+  const sstCol = header.findIndex((h) => h === 'sst')
+
+  if (latCol < 0 || lonCol < 0 || sstCol < 0) {
+    throw new Error('Expected lat, lon and sst columns')
+  }
+
+  const cells: Array<{ lat: number; lon: number; sst: number }> = []
+  for (const line of lines.slice(1)) {
+    const parts = line.split(',')
+    const lat = Number(parts[latCol])
+    const lon = Number(parts[lonCol])
+    // Empty or "NaN" SST means land/ice
+    const sst = parts[sstCol]?.trim() ? Number(parts[sstCol]) : NaN
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue // units row etc.
+    cells.push({ lat, lon, sst })
+  }
+
+  const lats = [...new Set(cells.map((c) => c.lat))].sort((a, b) => a - b)
+  const lons = [...new Set(cells.map((c) => c.lon))].sort((a, b) => a - b)
+  const latIndex = new Map(lats.map((v, i) => [v, i]))
+  const lonIndex = new Map(lons.map((v, i) => [v, i]))
+
+  const values = new Float32Array(lats.length * lons.length).fill(NaN)
+  for (const c of cells) {
+    values[latIndex.get(c.lat)! * lons.length + lonIndex.get(c.lon)!] = c.sst
+  }
+
+  return { lats, lons, values }
+}
+
+/**
+ * NetCDF exports often store latitude north-to-south; flip so lookups can
+ * binary-search ascending axes
+ */
+function orientAscending(grid: Grid): Grid {
+  const { lats, lons, values } = grid
+  if (lats.length < 2 || lats[0] < lats[lats.length - 1]) return grid
+
+  const flipped = new Float32Array(values.length)
+  for (let i = 0; i < lats.length; i++) {
+    const src = (lats.length - 1 - i) * lons.length
+    flipped.set(values.subarray(src, src + lons.length), i * lons.length)
+  }
+  return { lats: [...lats].reverse(), lons, values: flipped }
+}
+
+/**
+ * Locate the nearest grid cell to a coordinate
+ * Returns null outside the grid (regional files don't extrapolate from the edge)
+ */
+function locate(grid: Grid, lat: number, lon: number) {
+  if (!grid.lats.length || !grid.lons.length) return null
+
+  // OISST uses 0..360 longitudes
+  const maxLon = grid.lons[grid.lons.length - 1]
+  const queryLon = maxLon > 180 && lon < 0 ? lon + 360 : lon
+
+  const i = nearestIndex(grid.lats, lat)
+  const k = nearestIndex(grid.lons, queryLon)
+
+  if (
+    !withinOneCell(grid.lats, i, lat) ||
+    !withinOneCell(grid.lons, k, queryLon)
+  ) {
+    return null
+  }
+
+  return { i, k }
+}
+
+function sampleGrid(grid: Grid, lat: number, lon: number): number | null {
+  const idx = locate(grid, lat, lon)
+  if (!idx) return null
+
+  const v = grid.values[idx.i * grid.lons.length + idx.k]
+  return Number.isNaN(v) ? null : v
+}
+
+function gridCell(grid: Grid, lat: number, lon: number): SampledCell | null {
+  const idx = locate(grid, lat, lon)
+  if (!idx) return null
+
+  const cellLon = grid.lons[idx.k]
+  return {
+    lat: grid.lats[idx.i],
+    lon: cellLon > 180 ? cellLon - 360 : cellLon,
+    resolutionDeg:
+      grid.lats.length > 1 ? Math.abs(grid.lats[1] - grid.lats[0]) : null,
+  }
+}
+
+function nearestIndex(axis: Array<number>, value: number): number {
+  let lo = 0
+  let hi = axis.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (axis[mid] < value) lo = mid + 1
+    else hi = mid
+  }
+  if (lo > 0 && Math.abs(axis[lo - 1] - value) <= Math.abs(axis[lo] - value)) {
+    return lo - 1
+  }
+  return lo
+}
+
+function withinOneCell(axis: Array<number>, index: number, value: number): boolean {
+  if (axis.length < 2) return true
+  const spacing = Math.abs(axis[1] - axis[0])
+  return Math.abs(axis[index] - value) <= spacing
+}
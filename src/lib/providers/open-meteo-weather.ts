@@ -0,0 +1,79 @@
+/**
+ * Open-Meteo weather adapter (air temperature and wind at the site)
+ * Recent and future dates come from the forecast API, older dates from the
+ * ERA5-based archive API
+ */
+
+import type { AtmosphericProvider, AtmosphericSeries } from './types'
+import { UpstreamUnavailableError, upstreamFetch } from '@/lib/upstream'
+import { addDays, getTodayISO } from '@/lib/dates'
+import { toLocalISO } from '@/lib/timezone'
+
+const FORECAST_API_BASE = 'https://api.open-meteo.com/v1/forecast'
+const ARCHIVE_API_BASE = 'https://archive-api.open-meteo.com/v1/archive'
+// The forecast API serves roughly the last three months; the archive lags a few days
+const FORECAST_PAST_DAYS = 60
+
+async function fetchRange(
+  lat: number,
+  lon: number,
+  startISO: string,
+  endISO: string,
+): Promise<AtmosphericSeries | null> {
+  const base =
+    startISO < addDays(getTodayISO(), -FORECAST_PAST_DAYS)
+      ? ARCHIVE_API_BASE
+      : FORECAST_API_BASE
+
+  const qs = new URLSearchParams({
+    latitude: lat.toFixed(4),
+    longitude: lon.toFixed(4),
+    hourly: 'temperature_2m,wind_speed_10m',
+    wind_speed_unit: 'kmh',
+    start_date: startISO,
+    end_date: endISO,
+    timezone: 'auto',
+    timeformat: 'unixtime',
+  })
+
+  try {
+    const r = await upstreamFetch(`${base}?${qs}`, { timeoutMs: 8000 })
+
+    if (!r.ok) {
+      console.warn(
+        `Open-Meteo weather error for ${lat},${lon} on ${startISO}..${endISO}: ${r.status}`,
+      )
+      return null
+    }
+
+    const j = await r.json()
+
+    const timezone: string = j?.timezone ?? 'GMT'
+    const times: Array<number> = j?.hourly?.time ?? []
+    const airTemps: Array<number | null> = j?.hourly?.temperature_2m ?? []
+    const winds: Array<number | null> = j?.hourly?.wind_speed_10m ?? []
+
+    const hourly = times.map((unix, i) => ({
+      time: toLocalISO(unix * 1000, timezone),
+      epochMs: unix * 1000,
+      airTemp: airTemps[i] ?? null,
+      windSpeed: winds[i] ?? null,
+    }))
+
+    return { hourly, timezone }
+  } catch (err) {
+    if (err instanceof UpstreamUnavailableError) throw err
+    console.error(`Failed to fetch weather for ${lat},${lon}:`, err)
+    return null
+  }
+}
+
+export const openMeteoWeatherProvider: AtmosphericProvider = {
+  id: 'open-meteo',
+  source: {
+    name: 'Open-Meteo Weather API',
+    dataset: 'Best-match forecast models / ERA5 archive',
+    resolutionDeg: null,
+  },
+  fetchRange,
+}
@@ -0,0 +1,258 @@
+/**
+ * Open-Meteo Marine API adapter
+ * Handles single and multi-coordinate requests with robust error handling
+ */
+
+import type {
+  FetchRangeOptions,
+  SSTPoint,
+  SSTProvider,
+  SSTSeries,
+} from './types'
+import type { MarineValues, MarineVariable } from '@/lib/marine'
+import { UpstreamUnavailableError, upstreamFetch } from '@/lib/upstream'
+import { mapWithConcurrency } from '@/lib/concurrency'
+import { toLocalISO } from '@/lib/timezone'
+import { aggregateMarine } from '@/lib/marine'
+
+const MARINE_API_BASE = 'https://marine-api.open-meteo.com/v1/marine'
+// sea_surface_temperature comes from Météo-France's SMOC ocean model
+const MODEL_RESOLUTION_DEG = 0.08
+
+async function fetchRange(
+  lat: number,
+  lon: number,
+  startISO: string,
+  endISO: string,
+  { marine = [] }: FetchRangeOptions = {},
+): Promise<SSTSeries | null> {
+  const qs = new URLSearchParams({
+    latitude: lat.toFixed(4),
+    longitude: lon.toFixed(4),
+    hourly: ['sea_surface_temperature', ...marine].join(','),
+    start_date: startISO,
+    end_date: endISO,
+    timezone: 'auto', // Date window is in the site's local days
+    timeformat: 'unixtime', // UTC instants; mapped to wall-clock time below
+    cell_selection: 'sea', // Bias toward ocean cells near coastlines
+  })
+
+  try {
+    // 8s timeout per attempt, ranges return more data
+    const r = await upstreamFetch(`${MARINE_API_BASE}?${qs}`, { timeoutMs: 8000 })
+
+    // Non-transient errors (e.g. dates outside the archive) mean "no data"
+    if (!r.ok) {
+      console.warn(
+        `Open-Meteo error for ${lat},${lon} on ${startISO}..${endISO}: ${r.status}`,
+      )
+      return null
+    }
+
+    const j = await r.json()
+
+    const timezone: string = j?.timezone ?? 'GMT'
+    const times: Array<number> = j?.hourly?.time ?? []
+    const temps: Array<number | null> =
+      j?.hourly?.sea_surface_temperature ?? []
+
+    // Label hours with the site's wall clock so DST days get 23/25 entries
+    // instead of a fixed offset applied across the whole window
+    const hourly: SSTSeries['hourly'] = times.map((unix, i) => ({
+      time: toLocalISO(unix * 1000, timezone),
+      epochMs: unix * 1000,
+      temp: temps[i] ?? null,
+    }))
+
+    if (marine.length) {
+      hourly.forEach((h, i) => {
+        h.marine = Object.fromEntries(
+          marine.map((v) => [v, j?.hourly?.[v]?.[i] ?? null]),
+        )
+      })
+    }
+
+    // latitude/longitude in the response are the model cell actually used
+    const cell =
+      typeof j?.latitude === 'number' && typeof j?.longitude === 'number'
+        ? { lat: j.latitude, lon: j.longitude, resolutionDeg: MODEL_RESOLUTION_DEG }
+        : null
+
+    return { daily: dailyMeans(hourly, marine), hourly, timezone, cell }
+  } catch (err) {
+    // Let routes report the outage instead of "no data"
+    if (err instanceof UpstreamUnavailableError) throw err
+    console.error(`Failed to fetch SST for ${lat},${lon}:`, err)
+    return null
+  }
+}
+
+/**
+ * Collapse hourly values into per-day means
+ * Null values (ice coverage, land, etc.) are ignored; all-null days stay null
+ * Requested sea-state variables are aggregated per variable (see aggregateMarine)
+ */
+function dailyMeans(
+  hourly: SSTSeries['hourly'],
+  marine: Array<MarineVariable>,
+): SSTSeries['daily'] {
+  const byDate = new Map<string, SSTSeries['hourly']>()
+  for (const h of hourly) {
+    const date = h.time.slice(0, 10)
+    const bucket = byDate.get(date) ?? []
+    bucket.push(h)
+    byDate.set(date, bucket)
+  }
+
+  return [...byDate].map(([date, hours]) => {
+    const temps = hours
+      .map((h) => h.temp)
+      .filter((t): t is number => t !== null)
+    const day: SSTSeries['daily'][number] = {
+      date,
+      temp: temps.length ? temps.reduce((a, b) => a + b, 0) / temps.length : null,
+    }
+
+    if (marine.length) {
+      const values: MarineValues = {}
+      for (const v of marine) {
+        const valid = hours
+          .map((h) => h.marine?.[v])
+          .filter((x): x is number => typeof x === 'number')
+        values[v] = aggregateMarine(v, valid)
+      }
+      day.marine = values
+    }
+
+    return day
+  })
+}
+
+// Keep grid URLs well under common 8 KB server/proxy limits
+const MAX_GRID_URL_LENGTH = 6000
+// Parallel batch requests per grid fetch
+const GRID_CONCURRENCY = 4
+
+async function fetchGrid(
+  coords: Array<{ lat: number; lon: number }>,
+  dateISO: string,
+): Promise<Array<SSTPoint>> {
+  if (!coords.length) return []
+
+  const batches = batchCoords(coords)
+  const outages: Array<UpstreamUnavailableError> = []
+
+  const results = await mapWithConcurrency(batches, GRID_CONCURRENCY, async (batch) => {
+    try {
+      return await fetchGridBatch(batch, dateISO)
+    } catch (err) {
+      if (err instanceof UpstreamUnavailableError) {
+        outages.push(err)
+      } else {
+        console.error('Failed to fetch SST grid batch:', err)
+      }
+      // Mark the batch as failed rather than nulling the whole grid
+      return batch.map((c) => ({ ...c, temp: null, failed: true }))
+    }
+  })
+
+  // Nothing came back at all: report the outage instead of an empty grid
+  if (outages.length && results.every((batch) => batch[0]?.failed)) {
+    throw outages[0]
+  }
+
+  return results.flat()
+}
+
+/**
+ * Split coordinates into batches whose request URL stays under
+ * MAX_GRID_URL_LENGTH (each coordinate adds ~22 encoded characters)
+ */
+function batchCoords(
+  coords: Array<{ lat: number; lon: number }>,
+): Array<Array<{ lat: number; lon: number }>> {
+  const baseLength = gridUrl([], '0000-00-00').length
+  const batches: Array<Array<{ lat: number; lon: number }>> = []
+  let current: Array<{ lat: number; lon: number }> = []
+  let length = baseLength
+
+  for (const c of coords) {
+    // Encoded "lat%2C" + "lon%2C"
+    const added = c.lat.toFixed(4).length + c.lon.toFixed(4).length + 6
+    if (current.length && length + added > MAX_GRID_URL_LENGTH) {
+      batches.push(current)
+      current = []
+      length = baseLength
+    }
+    current.push(c)
+    length += added
+  }
+  if (current.length) batches.push(current)
+
+  return batches
+}
+
+function gridUrl(
+  coords: Array<{ lat: number; lon: number }>,
+  dateISO: string,
+): string {
+  const qs = new URLSearchParams({
+    latitude: coords.map((c) => c.lat.toFixed(4)).join(','),
+    longitude: coords.map((c) => c.lon.toFixed(4)).join(','),
+    hourly: 'sea_surface_temperature',
+    start_date: dateISO,
+    end_date: dateISO,
+    timezone: 'auto',
+    cell_selection: 'sea',
+  })
+  return `${MARINE_API_BASE}?${qs}`
+}
+
+/**
+ * Fetch one URL-sized batch of coordinates
+ * Throws on upstream failure so the caller can mark the batch
+ */
+async function fetchGridBatch(
+  coords: Array<{ lat: number; lon: number }>,
+  dateISO: string,
+): Promise<Array<SSTPoint>> {
+  // 8s timeout per attempt for grid (larger request)
+  const r = await upstreamFetch(gridUrl(coords, dateISO), { timeoutMs: 8000 })
+
+  if (!r.ok) {
+    throw new Error(`Open-Meteo grid error: ${r.status}`)
+  }
+
+  const j = await r.json()
+
+  // Multi-coordinate responses are a JSON array, single coordinate an object
+  const results = Array.isArray(j) ? j : [j]
+
+  return coords.map((c, i) => {
+    const temps: Array<number | null> =
+      results[i]?.hourly?.sea_surface_temperature ?? []
+
+    const validTemps = temps.filter((t): t is number => t !== null)
+    const temp =
+      validTemps.length > 0
+        ? validTemps.reduce((a, b) => a + b, 0) / validTemps.length
+        : null
+
+    return {
+      lat: c.lat,
+      lon: c.lon,
+      temp,
+    }
+  })
+}
+
+export const openMeteoProvider: SSTProvider = {
+  id: 'open-meteo',
+  source: {
+    name: 'Open-Meteo Marine API',
+    dataset: 'Météo-France SMOC',
+    resolutionDeg: MODEL_RESOLUTION_DEG,
+  },
+  fetchRange,
+  fetchGrid,
+}
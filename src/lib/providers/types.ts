@@ -0,0 +1,130 @@
+/**
+ * Shared contract for SST data sources
+ * Each provider adapts one upstream (API or local files) to the same shape
+ */
+
+import type { MarineValues, MarineVariable } from '@/lib/marine'
+
+export interface SSTPoint {
+  lat: number
+  lon: number
+  temp: number | null
+  /** Set when the upstream request covering this point failed (temp unknown, not land) */
+  failed?: boolean
+}
+
+/**
+ * Model/dataset grid cell that a point lookup actually sampled
+ */
+export interface SampledCell {
+  lat: number
+  lon: number
+  /** Grid spacing in degrees, null if unknown */
+  resolutionDeg: number | null
+}
+
+/**
+ * Where a provider's numbers come from, for provenance metadata
+ */
+export interface SSTSource {
+  /** Human-readable service name */
+  name: string
+  /** Underlying model or dataset */
+  dataset: string
+  /** Nominal grid spacing in degrees, null if it depends on the data */
+  resolutionDeg: number | null
+}
+
+/**
+ * SST time series for a contiguous date window
+ */
+export interface SSTSeries {
+  /**
+   * Day averages, one entry per date in the window (chronological)
+   * marine holds daily sea-state aggregates when requested and supported
+   */
+  daily: Array<{ date: string; temp: number | null; marine?: MarineValues }>
+  /**
+   * Hourly values keyed by site-local time (YYYY-MM-DDTHH:mm), plus the UTC
+   * instant; on DST transition days a date has 23 or 25 entries
+   * Empty for sources that only publish daily means
+   */
+  hourly: Array<{
+    time: string
+    epochMs: number
+    temp: number | null
+    marine?: MarineValues
+  }>
+  /** IANA time zone of the site, or null when the source doesn't know it */
+  timezone: string | null
+  /** Grid cell the series was sampled from, null if the source didn't say */
+  cell: SampledCell | null
+}
+
+export interface FetchRangeOptions {
+  /** Sea-state variables to fetch alongside SST (ignored by SST-only sources) */
+  marine?: Array<MarineVariable>
+}
+
+export interface SSTProvider {
+  /** Stable identifier, matches the SST_PROVIDER env value */
+  readonly id: string
+  readonly source: SSTSource
+
+  /**
+   * Fetch daily and hourly SST for a single coordinate over an inclusive
+   * date range. Returns null if the upstream request failed entirely
+   */
+  fetchRange: (
+    lat: number,
+    lon: number,
+    startISO: string,
+    endISO: string,
+    options?: FetchRangeOptions,
+  ) => Promise<SSTSeries | null>
+
+  /**
+   * Fetch day-average SST for multiple coordinates (grid sampling)
+   * Always returns one entry per input coordinate, in input order
+   */
+  fetchGrid: (
+    coords: Array<{ lat: number; lon: number }>,
+    dateISO: string,
+  ) => Promise<Array<SSTPoint>>
+}
+
+/**
+ * Hourly surface weather for a contiguous date window
+ */
+export interface AtmosphericSeries {
+  /** Hourly values keyed by site-local time (YYYY-MM-DDTHH:mm) */
+  hourly: Array<{
+    time: string
+    epochMs: number
+    /** Air temperature at 2 m, °C */
+    airTemp: number | null
+    /** Wind speed at 10 m, km/h */
+    windSpeed: number | null
+  }>
+  timezone: string | null
+}
+
+/**
+ * Atmospheric counterpart to SSTProvider, for surface-interval exposure
+ */
+export interface AtmosphericProvider {
+  /** Stable identifier, matches the ATMOSPHERIC_PROVIDER env value */
+  readonly id: string
+  readonly source: SSTSource
+
+  /**
+   * Fetch hourly air temperature and wind for a single coordinate over an
+   * inclusive date range. Returns null if the upstream had no data
+   */
+  fetchRange: (
+    lat: number,
+    lon: number,
+    startISO: string,
+    endISO: string,
+  ) => Promise<AtmosphericSeries | null>
+}
@@ -1,184 +1,240 @@
 /**
- * SST data fetching utilities for Open-Meteo Marine API
- * Handles single and multi-coordinate requests with robust error handling
+ * SST data fetching utilities
+ * Delegates to the provider selected via SST_PROVIDER (Open-Meteo by default)
  */
 
-const MARINE_API_BASE = 'https://marine-api.open-meteo.com/v1/marine'
+import type {
+  FetchRangeOptions,
+  SSTPoint,
+  SSTProvider,
+  SSTSeries,
+  SampledCell,
+} from '@/lib/providers/types'
+import type { MarineValues } from '@/lib/marine'
+import { env } from '@/env'
+import { openMeteoProvider } from '@/lib/providers/open-meteo'
+import { createLocalProvider } from '@/lib/providers/local'
+import { distanceKm, ringCells } from '@/lib/geo'
+import { entryAtLocalHour } from '@/lib/timezone'
+
+export type {
+  FetchRangeOptions,
+  SSTPoint,
+  SSTProvider,
+  SSTSeries,
+  SampledCell,
+} from '@/lib/providers/types'
+
+let provider: SSTProvider | null = null
 
-export interface SSTPoint {
-  lat: number
-  lon: number
-  temp: number | null
+/**
+ * Resolve the configured SST provider (created once per server process)
+ */
+export function getSSTProvider(): SSTProvider {
+  if (provider) return provider
+
+  if (env.SST_PROVIDER === 'local') {
+    if (!env.SST_LOCAL_DATA_DIR) {
+      throw new Error('SST_LOCAL_DATA_DIR is required when SST_PROVIDER=local')
+    }
+    provider = createLocalProvider(env.SST_LOCAL_DATA_DIR)
+  } else {
+    provider = openMeteoProvider
+  }
+
+  return provider
+}
+
+export interface SourceMeta {
+  /** Provider id (SST_PROVIDER) */
+  provider: string
+  providerName: string
+  dataset: string
+  /** Model grid cell actually sampled (point lookups only) */
+  cell: { lat: number; lon: number } | null
+  resolutionDeg: number | null
+  /** When the upstream data was fetched (ISO 8601) */
+  fetchedAt: string
 }
 
 /**
- * Fetch SST for a single coordinate at a specific time or day average
- * Returns null if no data available (land, ice, or API error)
- * @param hour - Optional hour (0-23). If provided, returns temp at that hour. Otherwise returns day average.
+ * Provenance for an SST response from the active provider
+ * Call when the data is fetched; routes add whether it was served from cache
  */
-export async function fetchSSTDayAvg(
+export function sourceMeta(cell: SampledCell | null = null): SourceMeta {
+  const { id, source } = getSSTProvider()
+  return {
+    provider: id,
+    providerName: source.name,
+    dataset: source.dataset,
+    cell: cell && { lat: cell.lat, lon: cell.lon },
+    resolutionDeg: cell?.resolutionDeg ?? source.resolutionDeg,
+    fetchedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Fetch daily and hourly SST for a contiguous, inclusive date window
+ * Returns null if the provider request failed
+ * @param options.marine - Sea-state variables to fetch for the same window
+ */
+export function fetchSSTRange(
   lat: number,
   lon: number,
+  startISO: string,
+  endISO: string,
+  options?: FetchRangeOptions,
+): Promise<SSTSeries | null> {
+  return getSSTProvider().fetchRange(lat, lon, startISO, endISO, options)
+}
+
+/**
+ * Find the hourly entry for a site-local wall-clock hour (DST-aware)
+ */
+export function hourlyEntryFor(
+  series: SSTSeries,
+  dateISO: string,
+  hour: number,
+): SSTSeries['hourly'][number] | null {
+  return entryAtLocalHour(series.hourly, dateISO, hour)
+}
+
+/**
+ * Pick one date's value out of a series
+ * @param hour - Optional site-local hour (0-23). If provided and the series has hourly data, returns temp at that hour. Otherwise returns day average.
+ */
+export function sstForDate(
+  series: SSTSeries,
   dateISO: string,
   hour?: number,
-): Promise<number | null> {
-  const qs = new URLSearchParams({
-    latitude: lat.toFixed(4),
-    longitude: lon.toFixed(4),
-    hourly: 'sea_surface_temperature',
-    start_date: dateISO,
-    end_date: dateISO,
-    timezone: 'auto',
-    cell_selection: 'sea', // Bias toward ocean cells near coastlines
-  })
-
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 5000) // 5s timeout per request
-
-    const r = await fetch(`${MARINE_API_BASE}?${qs}`, {
-      headers: {
-        'User-Agent': 'ScubaSuitRecommender/1.0',
-      },
-      signal: controller.signal,
-    })
-
-    clearTimeout(timeoutId)
-
-    if (!r.ok) {
-      console.warn(`Open-Meteo error for ${lat},${lon} on ${dateISO}: ${r.status}`)
-      return null
-    }
+): number | null {
+  if (hour !== undefined) {
+    const entry = hourlyEntryFor(series, dateISO, hour)
+    if (entry) return entry.temp
+  }
 
-    const j = await r.json()
+  return series.daily.find((d) => d.date === dateISO)?.temp ?? null
+}
 
-    // Open-Meteo returns different structures for single vs multi-point
-    const temps: Array<number | null> =
-      j?.hourly?.sea_surface_temperature ?? []
+/**
+ * Pick one date's sea-state values out of a series, like sstForDate
+ * Returns null when the series carries no sea-state data for the date
+ */
+export function marineForDate(
+  series: SSTSeries,
+  dateISO: string,
+  hour?: number,
+): MarineValues | null {
+  if (hour !== undefined) {
+    const entry = hourlyEntryFor(series, dateISO, hour)
+    if (entry?.marine) return entry.marine
+  }
 
-    if (!temps.length) return null
+  return series.daily.find((d) => d.date === dateISO)?.marine ?? null
+}
 
-    // If specific hour requested, return that hour's temperature
-    if (hour !== undefined && hour >= 0 && hour < temps.length) {
-      return temps[hour]
-    }
+export interface DiurnalProfile {
+  /**
+   * Hourly values for the date, in site-local time
+   * 23 or 25 entries on DST transition days (a repeated hour appears twice)
+   */
+  hours: Array<{ hour: number; temp: number | null }>
+  min: number
+  max: number
+  warmestHour: number
+  coldestHour: number
+}
 
-    // Filter out null values (ice coverage, land, etc.)
-    const validTemps = temps.filter((t): t is number => t !== null)
-    if (!validTemps.length) return null
-
-    // Return daily average
-    return validTemps.reduce((a, b) => a + b, 0) / validTemps.length
-  } catch (err) {
-    if (err instanceof Error && err.name === 'AbortError') {
-      console.warn(`SST request timeout for ${lat},${lon} on ${dateISO}`)
-    } else {
-      console.error(`Failed to fetch SST for ${lat},${lon}:`, err)
-    }
-    return null
+/**
+ * Hourly SST profile for one date of a series
+ * Returns null for daily-only sources or when the date has no valid hours
+ */
+export function diurnalProfile(
+  series: SSTSeries,
+  dateISO: string,
+): DiurnalProfile | null {
+  const hours = series.hourly
+    .filter((h) => h.time.startsWith(dateISO))
+    .map((h) => ({ hour: Number(h.time.slice(11, 13)), temp: h.temp }))
+
+  const valid = hours.filter(
+    (h): h is { hour: number; temp: number } => h.temp !== null,
+  )
+  if (!valid.length) return null
+
+  const warmest = valid.reduce((a, b) => (b.temp > a.temp ? b : a))
+  const coldest = valid.reduce((a, b) => (b.temp < a.temp ? b : a))
+
+  return {
+    hours,
+    min: coldest.temp,
+    max: warmest.temp,
+    warmestHour: warmest.hour,
+    coldestHour: coldest.hour,
   }
 }
 
+/**
+ * Fetch SST for a single coordinate at a specific time or day average
+ * Returns null if no data available (land, ice, or API error)
+ * @param hour - Optional hour (0-23). If provided, returns temp at that hour. Otherwise returns day average.
+ */
+export async function fetchSSTDayAvg(
+  lat: number,
+  lon: number,
+  dateISO: string,
+  hour?: number,
+): Promise<number | null> {
+  const series = await fetchSSTRange(lat, lon, dateISO, dateISO)
+  return series ? sstForDate(series, dateISO, hour) : null
+}
+
 /**
  * Fetch SST for multiple coordinates (grid sampling)
  * More efficient than individual requests for heatmap data
  */
-export async function fetchSSTGrid(
+export function fetchSSTGrid(
   coords: Array<{ lat: number; lon: number }>,
   dateISO: string,
 ): Promise<Array<SSTPoint>> {
-  if (!coords.length) return []
-
-  const qs = new URLSearchParams({
-    latitude: coords.map((c) => c.lat.toFixed(4)).join(','),
-    longitude: coords.map((c) => c.lon.toFixed(4)).join(','),
-    hourly: 'sea_surface_temperature',
-    start_date: dateISO,
-    end_date: dateISO,
-    timezone: 'auto',
-    cell_selection: 'sea',
-  })
-
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 8000) // 8s timeout for grid (larger request)
-
-    const r = await fetch(`${MARINE_API_BASE}?${qs}`, {
-      headers: {
-        'User-Agent': 'ScubaSuitRecommender/1.0',
-      },
-      signal: controller.signal,
-    })
-
-    clearTimeout(timeoutId)
-
-    if (!r.ok) {
-      console.warn(`Open-Meteo grid error: ${r.status}`)
-      return coords.map((c) => ({ ...c, temp: null }))
-    }
-
-    const j = await r.json()
-
-    // Multi-coordinate responses are in j.results array
-    const results = j.results ?? [j]
-
-    return results.map((res: any, i: number) => {
-      const temps: Array<number | null> =
-        res?.hourly?.sea_surface_temperature ?? []
-
-      const validTemps = temps.filter((t): t is number => t !== null)
-      const temp =
-        validTemps.length > 0
-          ? validTemps.reduce((a, b) => a + b, 0) / validTemps.length
-          : null
+  return getSSTProvider().fetchGrid(coords, dateISO)
+}
 
-      return {
-        lat: coords[i].lat,
-        lon: coords[i].lon,
-        temp,
-      }
-    })
-  } catch (err) {
-    if (err instanceof Error && err.name === 'AbortError') {
-      console.warn('SST grid request timeout')
-    } else {
-      console.error('Failed to fetch SST grid:', err)
-    }
-    return coords.map((c) => ({ ...c, temp: null }))
-  }
+export interface ResolvedCell {
+  lat: number
+  lon: number
+  /** Distance from the requested coordinate */
+  distanceKm: number
 }
 
 /**
- * Attempt to find valid SST by nudging coordinate seaward
+ * Find the nearest sea cell with SST data, searching outward in square rings
  * Useful for coastal/land-edge clicks that return null
- * @param hour - Optional hour (0-23) for specific time temperature
+ * Each ring is probed with one grid request; the closest hit in the first ring
+ * with any data wins
+ * @param step - Ring spacing in degrees (~ model grid resolution)
+ * @param maxRings - Rings to search beyond the center before giving up
  */
-export async function fetchSSTWithNudge(
+export async function findNearestSeaCell(
   lat: number,
   lon: number,
   dateISO: string,
-  maxAttempts = 3,
-  hour?: number,
-): Promise<number | null> {
-  let temp = await fetchSSTDayAvg(lat, lon, dateISO, hour)
-  if (temp !== null) return temp
-
-  // Try nudging slightly in different directions (simplified: just east/west)
-  const nudgeAmount = 0.02 // ~2km at equator
-  const attempts = [
-    { lat, lon: lon + nudgeAmount },
-    { lat, lon: lon - nudgeAmount },
-    { lat: lat + nudgeAmount, lon },
-  ]
-
-  for (let i = 0; i < Math.min(maxAttempts, attempts.length); i++) {
-    temp = await fetchSSTDayAvg(
-      attempts[i].lat,
-      attempts[i].lon,
-      dateISO,
-      hour,
-    )
-    if (temp !== null) return temp
+  { step = 0.05, maxRings = 6 }: { step?: number; maxRings?: number } = {},
+): Promise<ResolvedCell | null> {
+  const origin = { lat, lon }
+
+  for (let ring = 0; ring <= maxRings; ring++) {
+    const points = await fetchSSTGrid(ringCells(origin, ring, step), dateISO)
+
+    let best: ResolvedCell | null = null
+    for (const p of points) {
+      if (p.temp === null) continue
+      const d = distanceKm(origin, p)
+      if (!best || d < best.distanceKm) {
+        best = { lat: p.lat, lon: p.lon, distanceKm: d }
+      }
+    }
+    if (best) return best
   }
 
   return null
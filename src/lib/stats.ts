@@ -0,0 +1,52 @@
+/**
+ * Summary statistics for temperature samples
+ */
+
+export interface TempStats {
+  mean: number
+  min: number
+  max: number
+  p10: number
+  p90: number
+}
+
+/**
+ * Linear-interpolated quantile (q in 0..1) of an unsorted sample
+ */
+export function quantile(arr: Array<number>, q: number): number {
+  const sorted = [...arr].sort((a, b) => a - b)
+  const pos = (sorted.length - 1) * q
+  const base = Math.floor(pos)
+  const rest = pos - base
+  const nextIndex = base + 1
+  if (nextIndex < sorted.length) {
+    return sorted[base] + rest * (sorted[nextIndex] - sorted[base])
+  }
+  return sorted[base]
+}
+
+/**
+ * Mean, range and P10/P90 of a sample
+ * Returns null for an empty sample
+ */
+export function summarize(temps: Array<number>): TempStats | null {
+  if (!temps.length) return null
+  return {
+    mean: temps.reduce((a, b) => a + b, 0) / temps.length,
+    min: Math.min(...temps),
+    max: Math.max(...temps),
+    p10: quantile(temps, 0.1),
+    p90: quantile(temps, 0.9),
+  }
+}
+
+/**
+ * Percentile rank (0-100) of a value within a sample
+ * Ties count half, so the median of a sample ranks at ~50
+ */
+export function percentileRank(sample: Array<number>, value: number): number {
+  if (!sample.length) return 50
+  const below = sample.filter((t) => t < value).length
+  const equal = sample.filter((t) => t === value).length
+  return ((below + equal / 2) / sample.length) * 100
+}
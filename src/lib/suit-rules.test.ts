@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RULE_SET_ID,
+  SUIT_RULE_SETS,
+  SUIT_RULE_SET_IDS,
+  getRuleSet,
+  isRuleSetId,
+  ruleBands,
+  suitRuleSetSchema,
+} from '@/lib/suit-rules'
+
+const validRuleSet = {
+  id: 'conservative',
+  name: 'Test',
+  description: '',
+  labels: getRuleSet('conservative').labels,
+  rules: [
+    { type: 'full-3mm', minTempC: 24, note: 'warm' },
+    { type: 'full-5mm', minTempC: 18, note: 'temperate' },
+    { type: 'drysuit', note: 'cold' },
+  ],
+}
+
+describe('suitRuleSetSchema', () => {
+  it('accepts rules ordered warmest first with a final catch-all', () => {
+    expect(suitRuleSetSchema.safeParse(validRuleSet).success).toBe(true)
+  })
+
+  it('rejects rules that are not in decreasing order', () => {
+    const result = suitRuleSetSchema.safeParse({
+      ...validRuleSet,
+      rules: [
+        { type: 'full-5mm', minTempC: 18, note: 'temperate' },
+        { type: 'full-3mm', minTempC: 24, note: 'warm' },
+        { type: 'drysuit', note: 'cold' },
+      ],
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['rules', 1, 'minTempC'])
+  })
+
+  it('requires the last rule, and only the last, to omit minTempC', () => {
+    const noCatchAll = suitRuleSetSchema.safeParse({
+      ...validRuleSet,
+      rules: validRuleSet.rules.slice(0, 2),
+    })
+    const earlyCatchAll = suitRuleSetSchema.safeParse({
+      ...validRuleSet,
+      rules: [{ type: 'full-3mm', note: 'warm' }, ...validRuleSet.rules.slice(1)],
+    })
+    expect(noCatchAll.success).toBe(false)
+    expect(earlyCatchAll.success).toBe(false)
+  })
+
+  it('rejects unknown suit types', () => {
+    const result = suitRuleSetSchema.safeParse({
+      ...validRuleSet,
+      rules: [{ type: 'diving-bell', note: 'dry' }],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('presets', () => {
+  it('ship every selectable id', () => {
+    expect(SUIT_RULE_SETS.map((r) => r.id)).toEqual([...SUIT_RULE_SET_IDS])
+  })
+
+  it('fall back to the default rule set for unknown ids', () => {
+    expect(getRuleSet('agency').id).toBe('agency')
+    expect(getRuleSet('nope').id).toBe(DEFAULT_RULE_SET_ID)
+    expect(getRuleSet(undefined).id).toBe(DEFAULT_RULE_SET_ID)
+  })
+
+  it('narrow ids with isRuleSetId', () => {
+    expect(isRuleSetId('tropical-operator')).toBe(true)
+    expect(isRuleSetId('nope')).toBe(false)
+  })
+})
+
+describe('ruleBands', () => {
+  it('bounds each band by its own and the warmer rule\'s minTempC', () => {
+    const bands = ruleBands(suitRuleSetSchema.parse(validRuleSet))
+    expect(
+      bands.map(({ rule, label, minTempC, maxTempC }) => ({
+        type: rule.type,
+        label,
+        minTempC,
+        maxTempC,
+      })),
+    ).toEqual([
+      { type: 'full-3mm', label: 'Full Wetsuit (3mm)', minTempC: 24, maxTempC: undefined },
+      { type: 'full-5mm', label: 'Full Wetsuit (5mm)', minTempC: 18, maxTempC: 24 },
+      { type: 'drysuit', label: 'Drysuit', minTempC: undefined, maxTempC: 18 },
+    ])
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * Declarative suit threshold rule sets
+ * Each rule set is plain data validated with zod; suit recommendations, suit
+ * labels and the landing-page guide all render from the active rule set
+ */
+
+import { z } from 'zod'
+
+// Warmest first within each family; surf and open-cell suits come from the
+// activity catalogs (see activities)
+export const SUIT_TYPES = [
+  'rash-guard',
+  'shorty',
+  'full-3mm',
+  'full-5mm',
+  'full-7mm',
+  'semi-dry',
+  'drysuit',
+  'open-cell-3mm',
+  'open-cell-5mm',
+  'open-cell-7mm',
+  'springsuit',
+  'surf-3-2',
+  'surf-4-3',
+  'surf-5-4',
+] as const
+
+export type SuitType = (typeof SUIT_TYPES)[number]
+
+// Selectable scuba presets; other activities use a fixed catalog
+export const SUIT_RULE_SET_IDS = [
+  'conservative',
+  'agency',
+  'tropical-operator',
+] as const
+
+export type SuitRuleSetId = (typeof SUIT_RULE_SET_IDS)[number]
+
+const suitRuleSchema = z.object({
+  type: z.enum(SUIT_TYPES),
+  /** Inclusive lower bound in °C; omitted on the final catch-all rule */
+  minTempC: z.number().optional(),
+  /** Short description of the water, e.g. "warm tropical waters" */
+  note: z.string().min(1),
+})
+
+export const suitRuleSetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  labels: z.record(z.enum(SUIT_TYPES), z.string().min(1)),
+  rules: z
+    .array(suitRuleSchema)
+    .min(1)
+    .superRefine((rules, ctx) => {
+      rules.forEach((rule, i) => {
+        const isLast = i === rules.length - 1
+        if (isLast !== (rule.minTempC === undefined)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: 'Only the last (coldest) rule may omit minTempC',
+            path: [i, 'minTempC'],
+          })
+        }
+        const prev = rules[i - 1]?.minTempC
+        if (
+          prev !== undefined &&
+          rule.minTempC !== undefined &&
+          rule.minTempC >= prev
+        ) {
+          ctx.addIssue({
+            code: 'custom',
+            message: 'Rules must be ordered warmest first with decreasing minTempC',
+            path: [i, 'minTempC'],
+          })
+        }
+      })
+    }),
+})
+
+export type SuitRuleSet = z.infer<typeof suitRuleSetSchema>
+export type SuitRule = SuitRuleSet['rules'][number]
+
+export const DEFAULT_LABELS: Record<SuitType, string> = {
+  'rash-guard': 'Rash Guard',
+  shorty: 'Shorty (1-3mm)',
+  'full-3mm': 'Full Wetsuit (3mm)',
+  'full-5mm': 'Full Wetsuit (5mm)',
+  'full-7mm': 'Full Wetsuit (7mm)',
+  'semi-dry': 'Semi-dry Suit (7mm)',
+  drysuit: 'Drysuit',
+  'open-cell-3mm': 'Open-cell Suit (3mm)',
+  'open-cell-5mm': 'Open-cell Suit (5mm)',
+  'open-cell-7mm': 'Open-cell Suit (7mm)',
+  springsuit: 'Springsuit (2mm)',
+  'surf-3-2': 'Surf Suit (3/2mm)',
+  'surf-4-3': 'Surf Suit (4/3mm)',
+  'surf-5-4': 'Surf Suit (5/4mm, hooded)',
+}
+
+const PRESETS = [
+  {
+    id: 'conservative',
+    name: 'Conservative',
+    description: 'Scuba-oriented thresholds that err on the warm side',
+    labels: DEFAULT_LABELS,
+    rules: [
+      { type: 'shorty', minTempC: 26, note: 'warm tropical waters' },
+      { type: 'full-3mm', minTempC: 23, note: 'warm waters' },
+      { type: 'full-5mm', minTempC: 20, note: 'temperate waters' },
+      { type: 'full-7mm', minTempC: 16, note: 'cold waters, add hood/gloves' },
+      { type: 'semi-dry', minTempC: 13, note: 'cold waters, sealed suit' },
+      { type: 'drysuit', minTempC: 10, note: 'cold waters, drysuit recommended' },
+      { type: 'drysuit', note: 'very cold waters, drysuit required' },
+    ],
+  },
+  {
+    id: 'agency',
+    name: 'Agency-style',
+    description: 'Common training-agency wetsuit thickness guidelines',
+    labels: {
+      ...DEFAULT_LABELS,
+      shorty: 'Shorty or Rash Guard',
+    },
+    rules: [
+      { type: 'shorty', minTempC: 27, note: 'warm tropical waters' },
+      { type: 'full-3mm', minTempC: 24, note: 'warm waters' },
+      { type: 'full-5mm', minTempC: 18, note: 'temperate waters' },
+      { type: 'full-7mm', minTempC: 14, note: 'cold waters, add hood/gloves' },
+      { type: 'semi-dry', minTempC: 10, note: 'cold waters, semi-dry suit' },
+      { type: 'drysuit', note: 'very cold waters, drysuit recommended' },
+    ],
+  },
+  {
+    id: 'tropical-operator',
+    name: 'Tropical operator',
+    description:
+      'Warm-water dive centre advice for several dives a day, when "cold" starts early',
+    labels: DEFAULT_LABELS,
+    rules: [
+      { type: 'shorty', minTempC: 29, note: 'bath-warm waters' },
+      { type: 'full-3mm', minTempC: 26, note: 'typical tropical waters' },
+      { type: 'full-5mm', minTempC: 23, note: 'cool for the tropics, upwelling likely' },
+      { type: 'full-7mm', minTempC: 19, note: 'cold upwelling, add hood' },
+      { type: 'semi-dry', minTempC: 16, note: 'cold waters, semi-dry suit' },
+      { type: 'drysuit', note: 'cold waters, drysuit recommended' },
+    ],
+  },
+] satisfies Array<z.input<typeof suitRuleSetSchema>>
+
+// Validated once at load so a bad edit fails fast rather than mis-recommending
+export const SUIT_RULE_SETS: Array<SuitRuleSet> = PRESETS.map((preset) =>
+  suitRuleSetSchema.parse(preset),
+)
+
+export const DEFAULT_RULE_SET_ID: SuitRuleSetId = 'conservative'
+
+/**
+ * Look up a preset by id, falling back to the default rule set
+ */
+export function getRuleSet(id: string | undefined): SuitRuleSet {
+  return (
+    SUIT_RULE_SETS.find((r) => r.id === id) ??
+    SUIT_RULE_SETS.find((r) => r.id === DEFAULT_RULE_SET_ID)!
+  )
+}
+
+export function isRuleSetId(value: string): value is SuitRuleSetId {
+  return (SUIT_RULE_SET_IDS as ReadonlyArray<string>).includes(value)
+}
+
+export interface SuitBand {
+  rule: SuitRule
+  label: string
+  /** Inclusive lower bound in °C, undefined for the coldest band */
+  minTempC?: number
+  /** Exclusive upper bound in °C, undefined for the warmest band */
+  maxTempC?: number
+}
+
+/**
+ * Temperature bands of a rule set, warmest first
+ */
+export function ruleBands(ruleSet: SuitRuleSet): Array<SuitBand> {
+  return ruleSet.rules.map((rule, i) => ({
+    rule,
+    label: ruleSet.labels[rule.type],
+    minTempC: rule.minTempC,
+    maxTempC: i > 0 ? ruleSet.rules[i - 1].minTempC : undefined,
+  }))
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { recommendSuits, suitForTemp } from '@/lib/suit'
+
+const atTemps = (...temps: Array<number>) => temps.map((tempC) => ({ tempC }))
+
+describe('recommendSuits', () => {
+  it('returns null for an empty sample', () => {
+    expect(recommendSuits([])).toBeNull()
+  })
+
+  it('sizes each class at the mean of its own samples', () => {
+    const rec = recommendSuits(atTemps(21, 22, 21.5, 24))!
+
+    expect(rec.primary.type).toBe('full-5mm')
+    expect(rec.primary.reasoning.rawTemp).toBeCloseTo(21.5)
+    expect(rec.backup?.type).toBe('full-3mm')
+    expect(rec.probabilities).toEqual([
+      { type: 'full-3mm', probability: 0.25 },
+      { type: 'full-5mm', probability: 0.75 },
+    ])
+  })
+
+  it('prefers the colder suit when two classes are equally likely', () => {
+    const rec = recommendSuits(atTemps(24, 21))!
+
+    expect(rec.primary.type).toBe('full-5mm')
+    expect(rec.backup?.type).toBe('full-3mm')
+  })
+
+  it('packs a second suit only when it covers at least 20% of samples', () => {
+    const packed = recommendSuits(atTemps(21, 21, 21, 21, 24))!
+    expect(packed.packBoth).toBe(true)
+    expect(packed.backup?.type).toBe('full-3mm')
+
+    const single = recommendSuits(atTemps(21, 21, 21, 21, 21, 24))!
+    expect(single.packBoth).toBe(false)
+    expect(single.backup).toBeNull()
+  })
+
+  describe('with a harsh surface on one day', () => {
+    const harsh = { windChillC: 2 }
+
+    it('keeps the class a surface day was sized up into', () => {
+      const rec = recommendSuits([
+        ...atTemps(20.5, 20.5, 20.5),
+        { tempC: 20.5, surface: harsh },
+      ])!
+
+      expect(rec.primary.type).toBe('full-5mm')
+      expect(rec.primary.boatCoat).toBeUndefined()
+      expect(rec.backup?.type).toBe('full-7mm')
+      expect(rec.backup?.boatCoat).toBe(true)
+      expect(rec.packBoth).toBe(true)
+    })
+
+    it('matches the probabilities for a single sample', () => {
+      const rec = recommendSuits([{ tempC: 20.5, surface: harsh }])!
+
+      expect(rec.probabilities).toEqual([{ type: 'full-7mm', probability: 1 }])
+      expect(rec.primary.type).toBe('full-7mm')
+      expect(rec.backup).toBeNull()
+    })
+
+    it('carries the boat coat to a class sized without the surface', () => {
+      const rec = recommendSuits([...atTemps(18, 19), { tempC: 20.5, surface: harsh }])!
+
+      expect(rec.primary.type).toBe('full-7mm')
+      expect(rec.primary.boatCoat).toBe(true)
+      expect(rec.primary.surfaceNotes).toContain('boat coat essential')
+      expect(rec.primary.reasoning.adjustments).toEqual([])
+    })
+  })
+})
+
+// Conservative scuba thresholds: shorty 26, 3mm 23, 5mm 20, 7mm 16, semi-dry 13, drysuit below
+describe('suitForTemp reasoning', () => {
+  it('reports the thresholds either side of a middle band', () => {
+    const { reasoning } = suitForTemp(21)
+
+    expect(reasoning.colder).toEqual({ type: 'full-7mm', threshold: 20, margin: 1 })
+    expect(reasoning.warmer?.type).toBe('full-3mm')
+    expect(reasoning.warmer?.threshold).toBe(23)
+    expect(reasoning.warmer?.margin).toBeCloseTo(2)
+  })
+
+  it('has no warmer class in the warmest band', () => {
+    const { reasoning } = suitForTemp(27)
+
+    expect(reasoning.warmer).toBeNull()
+    expect(reasoning.colder).toEqual({ type: 'full-3mm', threshold: 26, margin: 1 })
+  })
+
+  it('has no colder class in the catch-all band and skips bands with the same suit', () => {
+    const { reasoning } = suitForTemp(5)
+
+    expect(reasoning.colder).toBeNull()
+    expect(reasoning.warmer).toEqual({ type: 'semi-dry', threshold: 13, margin: 8 })
+    // The 10°C drysuit band borders the catch-all, which is also a drysuit
+    expect(suitForTemp(11).reasoning.colder).toBeNull()
+  })
+
+  it('sizes from the adjusted temperature', () => {
+    const { type, reasoning } = suitForTemp(20.5, { runsCold: true })
+
+    expect(type).toBe('full-7mm')
+    expect(reasoning.rawTemp).toBe(20.5)
+    expect(reasoning.adjustments).toEqual([
+      { source: 'runsCold', label: 'Runs cold', delta: -1 },
+    ])
+    expect(reasoning.sizedTemp).toBe(19.5)
+    expect(reasoning.warmer).toEqual({ type: 'full-5mm', threshold: 20, margin: 0.5 })
+  })
+
+  it('reports temperatures, shifts and margins in Fahrenheit', () => {
+    const { reasoning } = suitForTemp(21, { runsCold: true }, 'F')
+
+    expect(reasoning.rawTemp).toBeCloseTo(69.8)
+    expect(reasoning.adjustments[0].delta).toBeCloseTo(-1.8)
+    expect(reasoning.sizedTemp).toBeCloseTo(68)
+    expect(reasoning.colder?.threshold).toBeCloseTo(68)
+    expect(reasoning.colder?.margin).toBeCloseTo(0)
+    expect(reasoning.warmer?.threshold).toBeCloseTo(73.4)
+    expect(reasoning.warmer?.margin).toBeCloseTo(5.4)
+  })
+})
@@ -1,79 +1,386 @@
 /**
- * Dive suit recommendation logic based on surface temperature
- * Thresholds are scuba-oriented and conservative
+ * Suit recommendation logic based on water temperature
+ * Thresholds come from the activity's rule set (conservative scuba by default)
  */
 
-export type SuitType =
-  | 'shorty'
-  | 'full-3mm'
-  | 'full-5mm'
-  | 'full-7mm'
-  | 'drysuit'
+import type { TempUnit } from '@/lib/units'
+import type { Accessory } from '@/lib/accessories'
+import type { Activity } from '@/lib/activities'
+import type { Undergarment } from '@/lib/comfort'
+import type { SuitBand, SuitRuleSetId, SuitType } from '@/lib/suit-rules'
+import { deltaFromCelsius, fromCelsius } from '@/lib/units'
+import {
+  DEFAULT_RULE_SET_ID,
+  SUIT_TYPES,
+  getRuleSet,
+  ruleBands,
+} from '@/lib/suit-rules'
+import { accessoriesFor } from '@/lib/accessories'
+import { ruleSetFor } from '@/lib/activities'
+import {
+  comfortableMinutes,
+  drysuitUndergarment,
+  preferenceFactors,
+  suitConfidence,
+} from '@/lib/comfort'
+
+export type { SuitType } from '@/lib/suit-rules'
 
 export interface Suit {
   type: SuitType
   notes?: string
+  /** Bring a windproof boat coat for surface intervals */
+  boatCoat?: boolean
+  /** Advice driven by surface (air/wind) conditions */
+  surfaceNotes?: string
+  /** 0-1; low near a threshold or when the dive outlasts comfortableMinutes */
+  confidence: number
+  /** Estimated minutes before the diver gets cold in this suit */
+  comfortableMinutes: number
+  /** Hood, gloves, boots and layering pieces to wear with the suit */
+  accessories: Array<Accessory>
+  /** Undergarment weight, drysuits only */
+  undergarment?: Undergarment
+  /** How the suit was picked, for "Why this suit?" */
+  reasoning: SuitReasoning
+}
+
+/**
+ * One shift between the water temperature and the temperature the suit is sized for
+ */
+export interface SuitAdjustment {
+  /** Preference that produced it, or "surface" for wind chill between dives */
+  source: keyof UserPrefs | 'surface'
+  /** e.g. "Runs cold", "3 dives per day" */
+  label: string
+  /** In the requested unit; negative sizes the suit as if the water were colder */
+  delta: number
+}
+
+/**
+ * Neighbouring class across one of the chosen band's thresholds
+ */
+export interface SuitBoundary {
+  type: SuitType
+  /** Requested unit */
+  threshold: number
+  /** Distance from the sizing temperature to the threshold, requested unit */
+  margin: number
+}
+
+/**
+ * Temperatures are in the requested unit
+ */
+export interface SuitReasoning {
+  /** Water temperature before any adjustment */
+  rawTemp: number
+  adjustments: Array<SuitAdjustment>
+  /** rawTemp plus every adjustment, matched against the rule set's thresholds */
+  sizedTemp: number
+  /** Next colder class; its threshold is the one sizedTemp crossed. Null for the coldest band */
+  colder: SuitBoundary | null
+  /** Next warmer class, null for the warmest band */
+  warmer: SuitBoundary | null
 }
 
 export interface UserPrefs {
   runsCold?: boolean
   diveMinutes?: number
+  /** Scuba threshold rule set to apply (see suit-rules) */
+  ruleSet?: SuitRuleSetId
+  /** Selects the suit catalog; defaults to scuba */
+  activity?: Activity
+  bodyComposition?: 'lean' | 'average' | 'high-fat'
+  sex?: 'female' | 'male'
+  divesPerDay?: number
+  /** Time between dives on the same day */
+  surfaceIntervalMinutes?: number
+  exertion?: 'low' | 'moderate' | 'high'
+  /** Days of diving in a row, including this one */
+  consecutiveDays?: number
 }
 
+/**
+ * Surface exposure between dives (see fetchSurfaceConditions)
+ */
+export interface SurfaceExposure {
+  /** Perceived air temperature on the boat, °C */
+  windChillC: number
+}
+
+// Wind chill below which a boat coat is advised
+const BOAT_COAT_WIND_CHILL_C = 18
+// Wind chill below which divers stay chilled between dives: go a suit thicker
+const HARSH_SURFACE_WIND_CHILL_C = 10
+
+// Planned dives longer than this feel a bit colder when sizing the suit
+const LONG_DIVE_MINUTES = 45
+
 /**
  * Returns suit recommendation for given temperature
- * Applies optional user preference adjustments
+ * Applies user preference biases (see comfort) and surface exposure, then
+ * estimates confidence and how long the suit stays comfortable
+ * Notes are written in the requested unit; thresholds are always °C
  */
-export function suitForTemp(tempC: number, prefs: UserPrefs = {}): Suit {
-  // Apply preference-based bias
-  const bias =
-    (prefs.runsCold ? -1 : 0) +
-    (prefs.diveMinutes && prefs.diveMinutes > 45 ? -0.5 : 0)
+export function suitForTemp(
+  tempC: number,
+  prefs: UserPrefs = {},
+  unit: TempUnit = 'C',
+  surface?: SurfaceExposure,
+): Suit {
+  const harshSurface =
+    surface !== undefined && surface.windChillC < HARSH_SURFACE_WIND_CHILL_C
 
-  const adjustedTemp = tempC + bias
+  // Temperature the diver feels, then the one the suit is sized for
+  const factors = preferenceFactors(prefs)
+  const feltTemp = tempC + factors.reduce((sum, f) => sum + f.biasC, 0)
+  const sizingShifts: Array<{ source: SuitAdjustment['source']; biasC: number }> = [
+    {
+      source: 'diveMinutes',
+      biasC: prefs.diveMinutes && prefs.diveMinutes > LONG_DIVE_MINUTES ? -0.5 : 0,
+    },
+    { source: 'surface', biasC: harshSurface ? -1 : 0 },
+  ]
+  const adjustedTemp =
+    feltTemp + sizingShifts.reduce((sum, s) => sum + s.biasC, 0)
 
-  if (adjustedTemp >= 26) {
-    return { type: 'shorty', notes: '≥26°C - warm tropical waters' }
+  const bands = ruleBands(ruleSetFor(prefs.activity, prefs.ruleSet))
+  const band = bandFor(bands, adjustedTemp)
+  const adjustments = [
+    ...factors.map((f) => ({ source: f.factor, biasC: f.biasC })),
+    ...sizingShifts.filter((s) => s.biasC !== 0),
+  ].map(({ source, biasC }) => ({
+    source,
+    label: adjustmentLabel(source, prefs, unit, surface),
+    delta: deltaFromCelsius(biasC, unit),
+  }))
+  const minutes = comfortableMinutes(band.rule.type, feltTemp)
+  const suit: Suit = {
+    type: band.rule.type,
+    notes: bandNotes(band, unit),
+    confidence: suitConfidence(adjustedTemp, band, minutes, prefs.diveMinutes),
+    comfortableMinutes: minutes,
+    accessories: accessoriesFor(band, adjustedTemp, prefs.activity, unit),
+    reasoning: {
+      rawTemp: fromCelsius(tempC, unit),
+      adjustments,
+      sizedTemp: fromCelsius(adjustedTemp, unit),
+      ...bandBoundaries(bands, band, adjustedTemp, unit),
+    },
+  }
+  if (suit.type === 'drysuit') {
+    suit.undergarment = drysuitUndergarment(feltTemp, prefs.diveMinutes)
   }
 
-  if (adjustedTemp >= 23) {
-    return { type: 'full-3mm', notes: '23–26°C - warm waters' }
+  if (surface && surface.windChillC < BOAT_COAT_WIND_CHILL_C) {
+    const feelsLike = `${Math.round(fromCelsius(surface.windChillC, unit))}°${unit}`
+    suit.boatCoat = true
+    suit.surfaceNotes = harshSurface
+      ? `Feels like ${feelsLike} on the surface - boat coat essential, suit sized up`
+      : `Feels like ${feelsLike} on the surface - bring a boat coat`
   }
 
-  if (adjustedTemp >= 20) {
-    return {
-      type: 'full-5mm',
-      notes: '20–23°C - temperate waters',
-    }
+  return suit
+}
+
+export interface SuitRecommendation {
+  /** Suit for the most likely conditions */
+  primary: Suit
+  /** Second suit worth packing, null when one suit covers the spread */
+  backup: Suit | null
+  /** Share of samples that call for each suit type, warmest first */
+  probabilities: Array<{ type: SuitType; probability: number }>
+  packBoth: boolean
+}
+
+/**
+ * One day's water temperature, with surface exposure only where it is known
+ * for that day (the selected date)
+ */
+export interface SuitSample {
+  tempC: number
+  surface?: SurfaceExposure
+}
+
+// A second suit is worth packing when conditions call for it this often
+const PACK_BOTH_PROBABILITY = 0.2
+
+/**
+ * Recommend from a whole temperature sample (e.g. every historical and
+ * forecast day) instead of its mean, which hides a spread that straddles
+ * a threshold
+ * Each sample is classified with its own surface exposure, matching the
+ * per-day suits; each class's suit is sized at the mean of its samples and
+ * carries the boat-coat advice of a surface-exposed day among them, so
+ * primary and backup always match their class and never coincide
+ * Returns null for an empty sample
+ */
+export function recommendSuits(
+  samples: Array<SuitSample>,
+  prefs: UserPrefs = {},
+  unit: TempUnit = 'C',
+): SuitRecommendation | null {
+  if (samples.length === 0) return null
+
+  const byType = new Map<SuitType, { temps: Array<number>; surfaceSuit?: Suit }>()
+  for (const { tempC, surface } of samples) {
+    const suit = suitForTemp(tempC, prefs, unit, surface)
+    const entry = byType.get(suit.type) ?? { temps: [] }
+    entry.temps.push(tempC)
+    if (surface) entry.surfaceSuit = suit
+    byType.set(suit.type, entry)
   }
 
-  if (adjustedTemp >= 16) {
-    return {
-      type: 'full-7mm',
-      notes: '16–20°C - cold waters, add hood/gloves',
-    }
+  const classes = SUIT_TYPES.flatMap((type) => {
+    const entry = byType.get(type)
+    if (!entry) return []
+    const { temps, surfaceSuit } = entry
+    const meanC = temps.reduce((a, b) => a + b, 0) / temps.length
+    return [{ type, meanC, surfaceSuit, probability: temps.length / samples.length }]
+  })
+  // Most likely first; on a tie the colder suit wins (being cold is worse)
+  const ranked = [...classes].sort(
+    (a, b) =>
+      b.probability - a.probability ||
+      SUIT_TYPES.indexOf(b.type) - SUIT_TYPES.indexOf(a.type),
+  )
+
+  // Sized without surface exposure, which only applies to its own day. When
+  // the mean lands in another class, the surface day is what put it in this
+  // one, so keep the suit that day was classified with
+  const classSuit = ({ type, meanC, surfaceSuit }: (typeof classes)[number]): Suit => {
+    const suit = suitForTemp(meanC, prefs, unit)
+    if (!surfaceSuit) return suit
+    if (suit.type !== type) return surfaceSuit
+    return surfaceSuit.boatCoat
+      ? { ...suit, boatCoat: true, surfaceNotes: surfaceSuit.surfaceNotes }
+      : suit
   }
 
-  if (adjustedTemp >= 10) {
-    return {
-      type: 'drysuit',
-      notes: '10–16°C - cold waters, drysuit recommended',
-    }
+  const first = ranked[0]
+  const second = ranked.at(1)
+  const backup =
+    second && second.probability >= PACK_BOTH_PROBABILITY
+      ? classSuit(second)
+      : null
+
+  return {
+    primary: classSuit(first),
+    backup,
+    probabilities: classes.map(({ type, probability }) => ({
+      type,
+      probability: Math.round(probability * 100) / 100,
+    })),
+    packBoth: backup !== null,
   }
+}
+
+/**
+ * First band (warmest first) the temperature reaches; the last is the catch-all
+ */
+function bandFor(bands: Array<SuitBand>, adjustedTemp: number): SuitBand {
+  return (
+    bands.find((b) => b.minTempC === undefined || adjustedTemp >= b.minTempC) ??
+    bands[bands.length - 1]
+  )
+}
+
+/**
+ * Classes either side of the chosen band and how far the sizing temperature is from each
+ * Neighbouring bands with the same suit (e.g. two drysuit bands) are skipped over
+ */
+function bandBoundaries(
+  bands: Array<SuitBand>,
+  band: SuitBand,
+  adjustedTemp: number,
+  unit: TempUnit,
+): Pick<SuitReasoning, 'colder' | 'warmer'> {
+  const i = bands.indexOf(band)
+  const differs = (b: SuitBand) => b.rule.type !== band.rule.type
+  const colderIndex = bands.findIndex((b, j) => j > i && differs(b))
+  const warmerIndex = bands.slice(0, i).map(differs).lastIndexOf(true)
+
+  // A class starts at its band's lower bound
+  const boundary = (type: SuitType, thresholdC: number | undefined) =>
+    thresholdC !== undefined
+      ? {
+          type,
+          threshold: fromCelsius(thresholdC, unit),
+          margin: deltaFromCelsius(Math.abs(adjustedTemp - thresholdC), unit),
+        }
+      : null
 
   return {
-    type: 'drysuit',
-    notes: '<10°C - very cold waters, drysuit required',
+    colder:
+      colderIndex > 0
+        ? boundary(bands[colderIndex].rule.type, bands[colderIndex - 1].minTempC)
+        : null,
+    warmer:
+      warmerIndex >= 0
+        ? boundary(bands[warmerIndex].rule.type, bands[warmerIndex].minTempC)
+        : null,
+  }
+}
+
+function adjustmentLabel(
+  source: SuitAdjustment['source'],
+  prefs: UserPrefs,
+  unit: TempUnit,
+  surface?: SurfaceExposure,
+): string {
+  switch (source) {
+    case 'runsCold':
+      return 'Runs cold'
+    case 'bodyComposition':
+      return prefs.bodyComposition === 'lean' ? 'Lean build' : 'Higher body fat'
+    case 'sex':
+      return `Sex (${prefs.sex})`
+    case 'exertion':
+      return `${prefs.exertion === 'low' ? 'Low' : 'High'} exertion`
+    case 'divesPerDay':
+      return `${prefs.divesPerDay} dives per day`
+    case 'surfaceIntervalMinutes':
+      return `${prefs.surfaceIntervalMinutes} min surface intervals`
+    case 'consecutiveDays':
+      return `${prefs.consecutiveDays} days of diving in a row`
+    case 'diveMinutes':
+      return `${prefs.diveMinutes} min dive (over ${LONG_DIVE_MINUTES} min)`
+    case 'surface':
+      return surface
+        ? `Feels like ${Math.round(fromCelsius(surface.windChillC, unit))}°${unit} on the surface`
+        : 'Cold surface'
+    default:
+      return source
+  }
+}
+
+function bandNotes({ rule, minTempC, maxTempC }: SuitBand, unit: TempUnit): string {
+  const deg = (c: number) => `${thresholdIn(c, unit)}°${unit}`
+  const range = (lo: number, hi: number) =>
+    `${thresholdIn(lo, unit)}–${thresholdIn(hi, unit)}°${unit}`
+
+  let bounds: string | null = null
+  if (minTempC !== undefined && maxTempC !== undefined) {
+    bounds = range(minTempC, maxTempC)
+  } else if (minTempC !== undefined) {
+    bounds = `≥${deg(minTempC)}`
+  } else if (maxTempC !== undefined) {
+    bounds = `<${deg(maxTempC)}`
   }
+
+  return bounds ? `${bounds} - ${rule.note}` : rule.note
 }
 
 /**
- * Human-readable suit type labels
+ * Threshold value for display; whole degrees, rounded in °F
  */
-export const SUIT_LABELS: Record<SuitType, string> = {
-  shorty: 'Shorty (1-3mm)',
-  'full-3mm': 'Full Wetsuit (3mm)',
-  'full-5mm': 'Full Wetsuit (5mm)',
-  'full-7mm': 'Full Wetsuit (7mm)',
-  drysuit: 'Drysuit',
+function thresholdIn(tempC: number, unit: TempUnit): number {
+  return Math.round(fromCelsius(tempC, unit))
 }
+
+/**
+ * Human-readable suit type labels of the default rule set
+ * Use ruleSetFor(activity, id).labels for the active one
+ */
+export const SUIT_LABELS: Record<SuitType, string> =
+  getRuleSet(DEFAULT_RULE_SET_ID).labels
@@ -0,0 +1,97 @@
+/**
+ * Simple thermocline model for estimating water temperature at depth
+ *
+ * The upper ocean is treated as a well-mixed surface layer (temperature equal
+ * to SST) above a thermocline where temperature falls linearly with depth:
+ *
+ *   T(z) = SST                           for z <= MLD
+ *   T(z) = SST - lapse * (z - MLD)       for z >  MLD, floored at DEEP_FLOOR_C
+ *
+ * Mixed-layer depth (MLD) and lapse rate depend on latitude and season.
+ * Summer heating stratifies the water (shallow MLD, sharp thermocline); winter
+ * storms and cooling mix it deep (deep MLD, weak gradient). Values are
+ * interpolated between climatological anchors by |latitude| and blended
+ * between summer and winter with a cosine of the day of year, peaking in
+ * mid-August (north) or mid-February (south).
+ *
+ * This is a planning estimate, not an observation: local upwelling, river
+ * plumes and currents can move the thermocline by tens of metres
+ */
+
+import { dayOfYear } from '@/lib/dates'
+
+export const THERMOCLINE_MODEL = 'seasonal-latitude-v1'
+
+// |latitude| anchors and per-anchor parameters (linearly interpolated)
+const LAT_ANCHORS = [0, 20, 40, 60, 90]
+const SUMMER_MLD_M = [30, 25, 15, 20, 20]
+const WINTER_MLD_M = [50, 60, 100, 200, 200]
+const SUMMER_LAPSE_C_PER_M = [0.15, 0.18, 0.25, 0.15, 0.05]
+const WINTER_LAPSE_C_PER_M = [0.12, 0.08, 0.04, 0.01, 0.01]
+
+// Day of year with the strongest stratification
+const NORTH_PEAK_DOY = 227 // ~15 Aug
+const SOUTH_PEAK_DOY = 46 // ~15 Feb
+
+// Below-thermocline water rarely gets colder than this at dive depths
+const DEEP_FLOOR_C = 4
+
+export interface DepthEstimate {
+  /** Estimated temperature at the requested depth, °C */
+  tempC: number
+  mixedLayerDepthM: number
+  /** Cooling below the mixed layer, °C per metre */
+  lapseRatePerM: number
+}
+
+/**
+ * Mixed-layer depth and thermocline lapse rate for a location and date
+ */
+export function thermoclineParams(
+  lat: number,
+  dateISO: string,
+): { mixedLayerDepthM: number; lapseRatePerM: number } {
+  const absLat = Math.min(Math.abs(lat), 90)
+  const peak = lat >= 0 ? NORTH_PEAK_DOY : SOUTH_PEAK_DOY
+  // 1 at peak summer stratification, 0 in mid-winter
+  const summer =
+    0.5 * (1 + Math.cos((2 * Math.PI * (dayOfYear(dateISO) - peak)) / 365))
+
+  const blend = (summerValues: Array<number>, winterValues: Array<number>) => {
+    const s = interpolate(absLat, summerValues)
+    const w = interpolate(absLat, winterValues)
+    return w + (s - w) * summer
+  }
+
+  return {
+    mixedLayerDepthM: blend(SUMMER_MLD_M, WINTER_MLD_M),
+    lapseRatePerM: blend(SUMMER_LAPSE_C_PER_M, WINTER_LAPSE_C_PER_M),
+  }
+}
+
+/**
+ * Estimate water temperature at a depth from the surface temperature
+ */
+export function estimateTempAtDepth(
+  sstC: number,
+  depthM: number,
+  lat: number,
+  dateISO: string,
+): DepthEstimate {
+  const { mixedLayerDepthM, lapseRatePerM } = thermoclineParams(lat, dateISO)
+  const below = Math.max(0, depthM - mixedLayerDepthM)
+  const floor = Math.min(sstC, DEEP_FLOOR_C)
+
+  return {
+    tempC: Math.max(floor, sstC - lapseRatePerM * below),
+    mixedLayerDepthM,
+    lapseRatePerM,
+  }
+}
+
+function interpolate(absLat: number, values: Array<number>): number {
+  const i = LAT_ANCHORS.findIndex((a) => a >= absLat)
+  if (i <= 0) return values[0]
+  const t = (absLat - LAT_ANCHORS[i - 1]) / (LAT_ANCHORS[i] - LAT_ANCHORS[i - 1])
+  return values[i - 1] + (values[i] - values[i - 1]) * t
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import {
+  entryAtLocalHour,
+  formatUtcOffset,
+  toLocalISO,
+  utcOffsetSeconds,
+} from '@/lib/timezone'
+
+// Site-local hourly labels for a day with `hours` listed, as upstream returns them
+function hourlyFor(dateISO: string, hours: Array<number>) {
+  return hours.map((h) => ({
+    time: `${dateISO}T${String(h).padStart(2, '0')}:00`,
+    hour: h,
+  }))
+}
+
+describe('entryAtLocalHour', () => {
+  const allHours = Array.from({ length: 24 }, (_, h) => h)
+
+  it('finds the entry for the wall-clock hour', () => {
+    const hourly = [
+      ...hourlyFor('2024-06-01', allHours),
+      ...hourlyFor('2024-06-02', allHours),
+    ]
+    expect(entryAtLocalHour(hourly, '2024-06-02', 14)?.time).toBe('2024-06-02T14:00')
+  })
+
+  it('resolves an hour skipped by spring-forward to the next existing hour', () => {
+    // Europe: 02:00 does not exist on the last Sunday of March
+    const hourly = hourlyFor('2024-03-31', allHours.filter((h) => h !== 2))
+    expect(entryAtLocalHour(hourly, '2024-03-31', 2)?.time).toBe('2024-03-31T03:00')
+  })
+
+  it('resolves an hour repeated by fall-back to its first occurrence', () => {
+    const hours = [0, 1, 2, 2, 3, 4]
+    const hourly = hourlyFor('2024-10-27', hours).map((h, i) => ({ ...h, index: i }))
+    expect(entryAtLocalHour(hourly, '2024-10-27', 2)?.index).toBe(2)
+  })
+
+  it('returns null when the date has no entry at or after the hour', () => {
+    const hourly = hourlyFor('2024-06-01', [0, 1, 2])
+    expect(entryAtLocalHour(hourly, '2024-06-01', 5)).toBeNull()
+    expect(entryAtLocalHour(hourly, '2024-06-02', 0)).toBeNull()
+  })
+})
+
+describe('utcOffsetSeconds', () => {
+  it('follows daylight saving time', () => {
+    expect(utcOffsetSeconds('Europe/Oslo', Date.UTC(2024, 0, 15))).toBe(3600)
+    expect(utcOffsetSeconds('Europe/Oslo', Date.UTC(2024, 6, 15))).toBe(7200)
+  })
+
+  it('handles zones without daylight saving and half-hour offsets', () => {
+    expect(utcOffsetSeconds('Asia/Makassar', Date.UTC(2024, 6, 15))).toBe(8 * 3600)
+    expect(utcOffsetSeconds('Asia/Kolkata', Date.UTC(2024, 6, 15))).toBe(5.5 * 3600)
+  })
+})
+
+describe('toLocalISO', () => {
+  it('maps a UTC instant onto the site wall clock', () => {
+    expect(toLocalISO(Date.UTC(2024, 6, 15, 22, 30), 'Europe/Oslo')).toBe('2024-07-16T00:30')
+  })
+})
+
+describe('formatUtcOffset', () => {
+  it('formats sign, hours and minutes', () => {
+    expect(formatUtcOffset(8 * 3600)).toBe('UTC+08:00')
+    expect(formatUtcOffset(-3.5 * 3600)).toBe('UTC-03:30')
+    expect(formatUtcOffset(0)).toBe('UTC+00:00')
+  })
+})
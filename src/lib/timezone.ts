@@ -0,0 +1,96 @@
+/**
+ * Site-local time helpers built on Intl (IANA time zone names)
+ * Upstream hourly data is keyed by UTC instants and mapped to the dive
+ * site's wall clock here, so DST days correctly have 23 or 25 hours
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone)
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, f)
+  }
+  return f
+}
+
+function wallClockParts(epochMs: number, timeZone: string) {
+  const parts: Record<string, string> = {}
+  for (const p of formatterFor(timeZone).formatToParts(epochMs)) {
+    parts[p.type] = p.value
+  }
+  return parts
+}
+
+/**
+ * Wall-clock time at the site for a UTC instant (YYYY-MM-DDTHH:mm)
+ */
+export function toLocalISO(epochMs: number, timeZone: string): string {
+  const p = wallClockParts(epochMs, timeZone)
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}`
+}
+
+/**
+ * Offset of the site's wall clock from UTC at a given instant, in seconds
+ */
+export function utcOffsetSeconds(timeZone: string, epochMs: number): number {
+  const minuteMs = Math.floor(epochMs / 60_000) * 60_000
+  const p = wallClockParts(minuteMs, timeZone)
+  const asUtc = Date.UTC(
+    Number(p.year),
+    Number(p.month) - 1,
+    Number(p.day),
+    Number(p.hour),
+    Number(p.minute),
+  )
+  return (asUtc - minuteMs) / 1000
+}
+
+/**
+ * Short zone name at an instant, e.g. "CEST", "WITA" or "GMT+8"
+ */
+export function timeZoneAbbreviation(timeZone: string, epochMs: number): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    timeZoneName: 'short',
+  }).formatToParts(epochMs)
+  return parts.find((p) => p.type === 'timeZoneName')?.value ?? timeZone
+}
+
+/**
+ * Format an offset in seconds as "UTC+08:00" / "UTC-03:30"
+ */
+export function formatUtcOffset(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '+'
+  const abs = Math.abs(seconds)
+  const hours = String(Math.floor(abs / 3600)).padStart(2, '0')
+  const minutes = String(Math.floor((abs % 3600) / 60)).padStart(2, '0')
+  return `UTC${sign}${hours}:${minutes}`
+}
+
+/**
+ * Find the entry for a site-local wall-clock hour in an hourly series
+ * Matches on the time label rather than position, so DST days work: an hour
+ * skipped by spring-forward resolves to the next existing hour, and an hour
+ * repeated by fall-back resolves to its first occurrence
+ */
+export function entryAtLocalHour<T extends { time: string }>(
+  hourly: Array<T>,
+  dateISO: string,
+  hour: number,
+): T | null {
+  return (
+    hourly.find(
+      (h) => h.time.startsWith(dateISO) && Number(h.time.slice(11, 13)) >= hour,
+    ) ?? null
+  )
+}
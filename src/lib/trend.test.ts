@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { annualMeans, dayOfYearMeans, linearTrend } from '@/lib/trend'
+import { addDays } from '@/lib/dates'
+
+function dailySeries(
+  startISO: string,
+  endISO: string,
+  temp: (dateISO: string) => number | null,
+) {
+  const daily: Array<{ date: string; temp: number | null }> = []
+  for (let d = startISO; d <= endISO; d = addDays(d, 1)) {
+    daily.push({ date: d, temp: temp(d) })
+  }
+  return daily
+}
+
+describe('linearTrend', () => {
+  it('recovers an exact linear warming rate', () => {
+    const points = [2000, 2001, 2002, 2003, 2004].map((year) => ({
+      year,
+      temp: 20 + 0.03 * (year - 2000),
+      samples: 1,
+    }))
+    const trend = linearTrend(points)!
+
+    expect(trend.perDecade).toBeCloseTo(0.3)
+    expect(trend.slope).toBeCloseTo(0.03)
+    expect(trend.r2).toBeCloseTo(1)
+    expect(trend.ciLow).toBeCloseTo(0.3)
+    expect(trend.ciHigh).toBeCloseTo(0.3)
+    expect(trend.n).toBe(5)
+  })
+
+  it('widens the confidence interval with noisy data', () => {
+    const temps = [20, 20.4, 19.9, 20.6, 20.2, 20.8]
+    const trend = linearTrend(
+      temps.map((temp, i) => ({ year: 2010 + i, temp, samples: 1 })),
+    )!
+
+    expect(trend.ciLow).toBeLessThan(trend.perDecade)
+    expect(trend.ciHigh).toBeGreaterThan(trend.perDecade)
+    expect(trend.r2).toBeGreaterThan(0)
+    expect(trend.r2).toBeLessThan(1)
+  })
+
+  it('returns null without residual degrees of freedom', () => {
+    expect(linearTrend([])).toBeNull()
+    expect(
+      linearTrend([
+        { year: 2000, temp: 20, samples: 1 },
+        { year: 2001, temp: 21, samples: 1 },
+      ]),
+    ).toBeNull()
+  })
+
+  it('returns null when every point is from the same year', () => {
+    const points = [20, 21, 22].map((temp) => ({ year: 2000, temp, samples: 1 }))
+    expect(linearTrend(points)).toBeNull()
+  })
+})
+
+describe('dayOfYearMeans', () => {
+  // Each day's value is its calendar year, so a bucket's mean shows where its days came from
+  const byCalendarYear = (d: string) => Number(d.slice(0, 4))
+
+  it('averages the days within the window for each year', () => {
+    const daily = dailySeries('2020-01-01', '2021-12-31', byCalendarYear)
+    const means = dayOfYearMeans(daily, 182, 3)
+
+    expect(means.map((m) => m.year)).toEqual([2020, 2021])
+    expect(means.every((m) => m.samples === 7)).toBe(true)
+  })
+
+  it('counts late December towards the window centred in early January', () => {
+    const daily = dailySeries('2019-12-01', '2022-02-01', byCalendarYear)
+    const means = dayOfYearMeans(daily, 2, 7)
+
+    expect(means.map((m) => m.year)).toEqual([2020, 2021, 2022])
+    for (const m of means) {
+      // 6 days of the previous December and 9 of January
+      expect(m.samples).toBe(15)
+      expect(m.temp).toBeCloseTo(m.year - 6 / 15)
+    }
+  })
+
+  it('clamps day 366 to 31 December in common years', () => {
+    const daily = dailySeries('2019-01-01', '2021-12-31', byCalendarYear)
+    const means = dayOfYearMeans(daily, 366, 3)
+
+    // Every window is centred on 31 December: 4 days of that year, 3 of the next
+    expect(means.map((m) => m.year)).toEqual([2019, 2020, 2021])
+    for (const m of means.slice(0, 2)) {
+      expect(m.samples).toBe(7)
+      expect(m.temp).toBeCloseTo(m.year + 3 / 7)
+    }
+  })
+
+  it('skips missing days and years with too little of the window', () => {
+    const daily = dailySeries('2020-06-01', '2021-06-30', (d) =>
+      d.startsWith('2021') ? null : 18,
+    )
+    expect(dayOfYearMeans(daily, 170, 5).map((m) => m.year)).toEqual([2020])
+  })
+})
+
+describe('annualMeans', () => {
+  it('keeps only years with near-complete coverage', () => {
+    const daily = dailySeries('2019-10-01', '2021-12-31', (d) =>
+      d.startsWith('2021-0') ? null : 20,
+    )
+    expect(annualMeans(daily)).toEqual([{ year: 2020, temp: 20, samples: 366 }])
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Long-term SST trend analysis
+ * Ordinary least squares on one value per year, so day-to-day autocorrelation
+ * doesn't inflate confidence
+ */
+
+export interface YearValue {
+  year: number
+  temp: number
+  /** Days that went into the value */
+  samples: number
+}
+
+export interface LinearTrend {
+  /** Warming rate, °C per decade */
+  perDecade: number
+  /** 95% confidence interval of perDecade */
+  ciLow: number
+  ciHigh: number
+  /** Fitted value at `year` is intercept + slope * year (°C, slope per year) */
+  intercept: number
+  slope: number
+  r2: number
+  n: number
+}
+
+// Two-sided 95% Student t critical values by degrees of freedom (1-30)
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+]
+
+function tCritical95(df: number): number {
+  return df <= T_95.length ? T_95[df - 1] : 1.96
+}
+
+/**
+ * Fit temp = intercept + slope * year with a 95% CI on the slope
+ * Returns null with fewer than 3 points (no residual degrees of freedom)
+ */
+export function linearTrend(points: Array<YearValue>): LinearTrend | null {
+  const n = points.length
+  if (n < 3) return null
+
+  const meanX = points.reduce((a, p) => a + p.year, 0) / n
+  const meanY = points.reduce((a, p) => a + p.temp, 0) / n
+
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (const p of points) {
+    sxx += (p.year - meanX) ** 2
+    sxy += (p.year - meanX) * (p.temp - meanY)
+    syy += (p.temp - meanY) ** 2
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  const intercept = meanY - slope * meanX
+  const sse = Math.max(0, syy - slope * sxy)
+  const se = Math.sqrt(sse / (n - 2) / sxx)
+  const margin = tCritical95(n - 2) * se
+
+  return {
+    perDecade: slope * 10,
+    ciLow: (slope - margin) * 10,
+    ciHigh: (slope + margin) * 10,
+    intercept,
+    slope,
+    r2: syy > 0 ? 1 - sse / syy : 0,
+    n,
+  }
+}
+
+/**
+ * Per-year mean of days within ±windowDays of a day of year
+ * Wraps around New Year: a window around 2 Jan takes late December from the
+ * year before, and counts it towards the year the window is centred in
+ */
+export function dayOfYearMeans(
+  daily: Array<{ date: string; temp: number | null }>,
+  targetDoy: number,
+  windowDays: number,
+): Array<YearValue> {
+  const byYear = new Map<number, Array<number>>()
+  for (const { date, temp } of daily) {
+    if (temp === null) continue
+    const time = Date.parse(date + 'T00:00:00Z')
+    const dateYear = Number(date.slice(0, 4))
+    // The window may be centred in the previous or next year
+    const year = [dateYear - 1, dateYear, dateYear + 1].find(
+      (y) => Math.abs(time - targetTime(y, targetDoy)) <= windowDays * DAY_MS,
+    )
+    if (year === undefined) continue
+    const bucket = byYear.get(year) ?? []
+    bucket.push(temp)
+    byYear.set(year, bucket)
+  }
+
+  // Require at least half the window so partial years don't skew the fit
+  return yearMeans(byYear, windowDays + 1)
+}
+
+const DAY_MS = 86_400_000
+
+/**
+ * UTC midnight of a day of year, clamped to the year's length (day 366 is
+ * 31 Dec in a common year)
+ */
+function targetTime(year: number, doy: number): number {
+  const yearDays = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS
+  return Date.UTC(year, 0, Math.min(doy, yearDays))
+}
+
+// Days of data a year needs to count towards the annual-mean trend
+const MIN_ANNUAL_SAMPLES = 300
+
+/**
+ * Per-year mean of all days, for years with near-complete coverage
+ */
+export function annualMeans(
+  daily: Array<{ date: string; temp: number | null }>,
+): Array<YearValue> {
+  const byYear = new Map<number, Array<number>>()
+  for (const { date, temp } of daily) {
+    if (temp === null) continue
+    const year = Number(date.slice(0, 4))
+    const bucket = byYear.get(year) ?? []
+    bucket.push(temp)
+    byYear.set(year, bucket)
+  }
+  return yearMeans(byYear, MIN_ANNUAL_SAMPLES)
+}
+
+function yearMeans(
+  byYear: Map<number, Array<number>>,
+  minSamples: number,
+): Array<YearValue> {
+  return [...byYear]
+    .filter(([, temps]) => temps.length >= minSamples)
+    .map(([year, temps]) => ({
+      year,
+      temp: temps.reduce((a, b) => a + b, 0) / temps.length,
+      samples: temps.length,
+    }))
+    .sort((a, b) => a.year - b.year)
+}
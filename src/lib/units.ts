@@ -0,0 +1,57 @@
+/**
+ * Temperature unit conversion and formatting
+ * Data is fetched and stored in °C; conversion happens at the edges
+ */
+
+export type TempUnit = 'C' | 'F'
+
+// Regions that use Fahrenheit for everyday temperatures
+const FAHRENHEIT_REGIONS = new Set(['US', 'LR', 'MM', 'BS', 'BZ', 'KY', 'PW', 'FM', 'MH'])
+
+/**
+ * Convert a Celsius temperature into the given unit
+ */
+export function fromCelsius(tempC: number, unit: TempUnit): number {
+  return unit === 'F' ? (tempC * 9) / 5 + 32 : tempC
+}
+
+/**
+ * Convert a temperature in the given unit back to Celsius
+ */
+export function toCelsius(temp: number, unit: TempUnit): number {
+  return unit === 'F' ? ((temp - 32) * 5) / 9 : temp
+}
+
+/**
+ * Convert a temperature difference (e.g. an anomaly) from °C into the given unit
+ * Differences scale but don't shift: 1°C = 1.8°F
+ */
+export function deltaFromCelsius(deltaC: number, unit: TempUnit): number {
+  return unit === 'F' ? (deltaC * 9) / 5 : deltaC
+}
+
+/**
+ * Format a Celsius temperature in the given unit, e.g. "20.4°C" / "68.7°F"
+ */
+export function formatTemp(tempC: number, unit: TempUnit, digits = 1): string {
+  return `${fromCelsius(tempC, unit).toFixed(digits)}°${unit}`
+}
+
+/**
+ * Parse a `units` query param value (c/f, case-insensitive)
+ */
+export function parseTempUnit(value: string | undefined): TempUnit {
+  return value?.toUpperCase() === 'F' ? 'F' : 'C'
+}
+
+/**
+ * Default unit for a BCP 47 locale, e.g. "en-US" -> F, "nb-NO" -> C
+ */
+export function defaultUnitForLocale(locale: string): TempUnit {
+  try {
+    const region = new Intl.Locale(locale).maximize().region
+    return region && FAHRENHEIT_REGIONS.has(region) ? 'F' : 'C'
+  } catch {
+    return 'C'
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Shared HTTP client for upstream data APIs
+ * Retries transient failures (network errors, timeouts, 429, 5xx) with
+ * jittered exponential backoff, honours Retry-After, and trips a per-host
+ * circuit breaker after repeated failures so we stop hammering a degraded API
+ */
+
+export interface UpstreamFetchOptions {
+  /** Per-attempt timeout in ms */
+  timeoutMs?: number
+  /** Retries after the first attempt */
+  retries?: number
+  headers?: Record<string, string>
+}
+
+/**
+ * Thrown when an upstream is unavailable: the circuit is open, or a
+ * request kept failing transiently after all retries
+ * API routes map this to a 503 with code UPSTREAM_UNAVAILABLE
+ */
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    message: string,
+    /** Seconds until the upstream is worth retrying */
+    readonly retryAfterSec: number,
+  ) {
+    super(message)
+    this.name = 'UpstreamUnavailableError'
+  }
+}
+
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 4000
+const FAILURE_THRESHOLD = 5 // consecutive failed requests before tripping
+const OPEN_DURATION_MS = 30_000 // how long to fail fast before a trial request
+
+/**
+ * Consecutive-failure circuit breaker
+ * closed -> open after FAILURE_THRESHOLD failures; after OPEN_DURATION_MS one
+ * trial request is let through (half-open) and its outcome closes or reopens it
+ */
+class CircuitBreaker {
+  private failures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  /** Returns ms until requests are allowed again, or 0 if allowed now */
+  blockedFor(): number {
+    if (this.openedAt === null) return 0
+
+    const remaining = this.openedAt + OPEN_DURATION_MS - Date.now()
+    if (remaining > 0) return remaining
+
+    // Half-open: allow a single trial request
+    if (this.trialInFlight) return OPEN_DURATION_MS
+    this.trialInFlight = true
+    return 0
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(): void {
+    this.failures++
+    this.trialInFlight = false
+    if (this.openedAt !== null || this.failures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now()
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+function breakerFor(url: string): CircuitBreaker {
+  const host = new URL(url).host
+  let breaker = breakers.get(host)
+  if (!breaker) {
+    breaker = new CircuitBreaker()
+    breakers.set(host, breaker)
+  }
+  return breaker
+}
+
+/**
+ * GET an upstream URL with retries and circuit breaking
+ * Resolves with the final Response for non-transient statuses (including 4xx),
+ * so callers keep handling "no data" responses themselves
+ * @throws UpstreamUnavailableError when the circuit is open or retries are exhausted
+ */
+export async function upstreamFetch(
+  url: string,
+  { timeoutMs = 5000, retries = 2, headers = {} }: UpstreamFetchOptions = {},
+): Promise<Response> {
+  const breaker = breakerFor(url)
+  const host = new URL(url).host
+
+  const blockedMs = breaker.blockedFor()
+  if (blockedMs > 0) {
+    throw new UpstreamUnavailableError(
+      `Circuit open for ${host}`,
+      Math.ceil(blockedMs / 1000),
+    )
+  }
+
+  let lastProblem = ''
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let retryAfterMs: number | null = null
+
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+      const r = await fetch(url, {
+        headers: {
+          'User-Agent': 'ScubaSuitRecommender/1.0',
+          ...headers,
+        },
+        signal: controller.signal,
+      }).finally(() => clearTimeout(timeoutId))
+
+      if (!isTransientStatus(r.status)) {
+        breaker.recordSuccess()
+        return r
+      }
+
+      lastProblem = `status ${r.status}`
+      retryAfterMs = parseRetryAfter(r.headers.get('Retry-After'))
+    } catch (err) {
+      lastProblem =
+        err instanceof Error && err.name === 'AbortError'
+          ? `timeout after ${timeoutMs}ms`
+          : String(err)
+    }
+
+    if (attempt === retries) break
+
+    // Upstream asked us to wait longer than we're willing to: give up now
+    if (retryAfterMs !== null && retryAfterMs > MAX_DELAY_MS) break
+
+    const delay = retryAfterMs ?? backoffDelay(attempt)
+    console.warn(
+      `Upstream ${host} ${lastProblem}, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`,
+    )
+    await sleep(delay)
+  }
+
+  breaker.recordFailure()
+  throw new UpstreamUnavailableError(
+    `Upstream ${host} unavailable: ${lastProblem}`,
+    Math.ceil(OPEN_DURATION_MS / 1000),
+  )
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * "Full jitter" backoff: random delay up to base * 2^attempt, capped
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * Parse Retry-After as delay-seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+
+  return null
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -9,17 +9,25 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
-import { Route as StoreRouteImport } from './routes/store'
-import { Route as MapRouteImport } from './routes/map'
-import { Route as AboutRouteImport } from './routes/about'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as AboutRouteImport } from './routes/about'
+import { Route as MapRouteImport } from './routes/map'
+import { Route as StoreRouteImport } from './routes/store'
+import { Route as ApiClosetRouteImport } from './routes/api/closet'
 import { Route as ApiGeocodeRouteImport } from './routes/api/geocode'
-import { Route as ApiSstPointRouteImport } from './routes/api/sst/point'
+import { Route as ApiSstClimatologyRouteImport } from './routes/api/sst/climatology'
 import { Route as ApiSstGridRouteImport } from './routes/api/sst/grid'
+import { Route as ApiSstPointRouteImport } from './routes/api/sst/point'
+import { Route as ApiSstTrendRouteImport } from './routes/api/sst/trend'
 
-const StoreRoute = StoreRouteImport.update({
-  id: '/store',
-  path: '/store',
+const IndexRoute = IndexRouteImport.update({
+  id: '/',
+  path: '/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AboutRoute = AboutRouteImport.update({
+  id: '/about',
+  path: '/about',
   getParentRoute: () => rootRouteImport,
 } as any)
 const MapRoute = MapRouteImport.update({
@@ -27,14 +35,14 @@ const MapRoute = MapRouteImport.update({
   path: '/map',
   getParentRoute: () => rootRouteImport,
 } as any)
-const AboutRoute = AboutRouteImport.update({
-  id: '/about',
-  path: '/about',
+const StoreRoute = StoreRouteImport.update({
+  id: '/store',
+  path: '/store',
   getParentRoute: () => rootRouteImport,
 } as any)
-const IndexRoute = IndexRouteImport.update({
-  id: '/',
-  path: '/',
+const ApiClosetRoute = ApiClosetRouteImport.update({
+  id: '/api/closet',
+  path: '/api/closet',
   getParentRoute: () => rootRouteImport,
 } as any)
 const ApiGeocodeRoute = ApiGeocodeRouteImport.update({
@@ -42,9 +50,9 @@ const ApiGeocodeRoute = ApiGeocodeRouteImport.update({
   path: '/api/geocode',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiSstPointRoute = ApiSstPointRouteImport.update({
-  id: '/api/sst/point',
-  path: '/api/sst/point',
+const ApiSstClimatologyRoute = ApiSstClimatologyRouteImport.update({
+  id: '/api/sst/climatology',
+  path: '/api/sst/climatology',
   getParentRoute: () => rootRouteImport,
 } as any)
 const ApiSstGridRoute = ApiSstGridRouteImport.update({
@@ -52,24 +60,40 @@ const ApiSstGridRoute = ApiSstGridRouteImport.update({
   path: '/api/sst/grid',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiSstPointRoute = ApiSstPointRouteImport.update({
+  id: '/api/sst/point',
+  path: '/api/sst/point',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiSstTrendRoute = ApiSstTrendRouteImport.update({
+  id: '/api/sst/trend',
+  path: '/api/sst/trend',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
   '/map': typeof MapRoute
   '/store': typeof StoreRoute
+  '/api/closet': typeof ApiClosetRoute
   '/api/geocode': typeof ApiGeocodeRoute
+  '/api/sst/climatology': typeof ApiSstClimatologyRoute
   '/api/sst/grid': typeof ApiSstGridRoute
   '/api/sst/point': typeof ApiSstPointRoute
+  '/api/sst/trend': typeof ApiSstTrendRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
   '/map': typeof MapRoute
   '/store': typeof StoreRoute
+  '/api/closet': typeof ApiClosetRoute
   '/api/geocode': typeof ApiGeocodeRoute
+  '/api/sst/climatology': typeof ApiSstClimatologyRoute
   '/api/sst/grid': typeof ApiSstGridRoute
   '/api/sst/point': typeof ApiSstPointRoute
+  '/api/sst/trend': typeof ApiSstTrendRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -77,9 +101,12 @@ export interface FileRoutesById {
   '/about': typeof AboutRoute
   '/map': typeof MapRoute
   '/store': typeof StoreRoute
+  '/api/closet': typeof ApiClosetRoute
   '/api/geocode': typeof ApiGeocodeRoute
+  '/api/sst/climatology': typeof ApiSstClimatologyRoute
   '/api/sst/grid': typeof ApiSstGridRoute
   '/api/sst/point': typeof ApiSstPointRoute
+  '/api/sst/trend': typeof ApiSstTrendRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -88,27 +115,36 @@ export interface FileRouteTypes {
     | '/about'
     | '/map'
     | '/store'
+    | '/api/closet'
     | '/api/geocode'
+    | '/api/sst/climatology'
     | '/api/sst/grid'
     | '/api/sst/point'
+    | '/api/sst/trend'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
     | '/about'
     | '/map'
     | '/store'
+    | '/api/closet'
     | '/api/geocode'
+    | '/api/sst/climatology'
     | '/api/sst/grid'
     | '/api/sst/point'
+    | '/api/sst/trend'
   id:
     | '__root__'
     | '/'
     | '/about'
     | '/map'
     | '/store'
+    | '/api/closet'
     | '/api/geocode'
+    | '/api/sst/climatology'
     | '/api/sst/grid'
     | '/api/sst/point'
+    | '/api/sst/trend'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -116,18 +152,28 @@ export interface RootRouteChildren {
   AboutRoute: typeof AboutRoute
   MapRoute: typeof MapRoute
   StoreRoute: typeof StoreRoute
+  ApiClosetRoute: typeof ApiClosetRoute
   ApiGeocodeRoute: typeof ApiGeocodeRoute
+  ApiSstClimatologyRoute: typeof ApiSstClimatologyRoute
   ApiSstGridRoute: typeof ApiSstGridRoute
   ApiSstPointRoute: typeof ApiSstPointRoute
+  ApiSstTrendRoute: typeof ApiSstTrendRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
-    '/store': {
-      id: '/store'
-      path: '/store'
-      fullPath: '/store'
-      preLoaderRoute: typeof StoreRouteImport
+    '/': {
+      id: '/'
+      path: '/'
+      fullPath: '/'
+      preLoaderRoute: typeof IndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/about': {
+      id: '/about'
+      path: '/about'
+      fullPath: '/about'
+      preLoaderRoute: typeof AboutRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/map': {
@@ -137,18 +183,18 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MapRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/about': {
-      id: '/about'
-      path: '/about'
-      fullPath: '/about'
-      preLoaderRoute: typeof AboutRouteImport
+    '/store': {
+      id: '/store'
+      path: '/store'
+      fullPath: '/store'
+      preLoaderRoute: typeof StoreRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/': {
-      id: '/'
-      path: '/'
-      fullPath: '/'
-      preLoaderRoute: typeof IndexRouteImport
+    '/api/closet': {
+      id: '/api/closet'
+      path: '/api/closet'
+      fullPath: '/api/closet'
+      preLoaderRoute: typeof ApiClosetRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/api/geocode': {
@@ -158,11 +204,11 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiGeocodeRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/sst/point': {
-      id: '/api/sst/point'
-      path: '/api/sst/point'
-      fullPath: '/api/sst/point'
-      preLoaderRoute: typeof ApiSstPointRouteImport
+    '/api/sst/climatology': {
+      id: '/api/sst/climatology'
+      path: '/api/sst/climatology'
+      fullPath: '/api/sst/climatology'
+      preLoaderRoute: typeof ApiSstClimatologyRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/api/sst/grid': {
@@ -172,6 +218,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiSstGridRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/sst/point': {
+      id: '/api/sst/point'
+      path: '/api/sst/point'
+      fullPath: '/api/sst/point'
+      preLoaderRoute: typeof ApiSstPointRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/sst/trend': {
+      id: '/api/sst/trend'
+      path: '/api/sst/trend'
+      fullPath: '/api/sst/trend'
+      preLoaderRoute: typeof ApiSstTrendRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -180,9 +240,12 @@ const rootRouteChildren: RootRouteChildren = {
   AboutRoute: AboutRoute,
   MapRoute: MapRoute,
   StoreRoute: StoreRoute,
+  ApiClosetRoute: ApiClosetRoute,
   ApiGeocodeRoute: ApiGeocodeRoute,
+  ApiSstClimatologyRoute: ApiSstClimatologyRoute,
   ApiSstGridRoute: ApiSstGridRoute,
   ApiSstPointRoute: ApiSstPointRoute,
+  ApiSstTrendRoute: ApiSstTrendRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
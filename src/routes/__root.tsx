@@ -5,6 +5,10 @@ import { TanStackDevtools } from '@tanstack/react-devtools'
 import Navbar from '../components/Navbar'
 import { ThemeProvider } from '../components/ThemeProvider'
 import { NavbarProvider } from '../components/NavbarContext'
+import { UnitsProvider } from '../components/UnitsProvider'
+import { SuitRulesProvider } from '../components/SuitRulesProvider'
+import { GearClosetProvider } from '../components/GearClosetProvider'
+import { PrefsProvider } from '../components/PrefsProvider'
 
 import appCss from '../styles.css?url'
 
@@ -75,25 +79,33 @@ export const Route = createRootRoute({
 function RootComponent() {
   return (
     <ThemeProvider defaultTheme="system" storageKey="dive-intel-theme">
-      <NavbarProvider>
-        <div className="h-screen bg-background flex flex-col overflow-hidden">
-          <Navbar />
-          <main className="flex-1 overflow-auto">
-            <Outlet />
-          </main>
-          <footer className="border-t px-4 py-2 text-xs text-muted-foreground text-center">
-            Geocoding by{' '}
-            <a
-              href="https://www.geoapify.com/"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline hover:text-foreground transition-colors"
-            >
-              Geoapify
-            </a>
-          </footer>
-        </div>
-      </NavbarProvider>
+      <UnitsProvider storageKey="dive-intel-units">
+        <SuitRulesProvider storageKey="dive-intel-suit-rules">
+          <PrefsProvider storageKey="dive-intel-prefs">
+            <GearClosetProvider storageKey="dive-intel-gear-closet">
+              <NavbarProvider>
+                <div className="h-screen bg-background flex flex-col overflow-hidden">
+                  <Navbar />
+                  <main className="flex-1 overflow-auto">
+                    <Outlet />
+                  </main>
+                  <footer className="border-t px-4 py-2 text-xs text-muted-foreground text-center">
+                    Geocoding by{' '}
+                    <a
+                      href="https://www.geoapify.com/"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-foreground transition-colors"
+                    >
+                      Geoapify
+                    </a>
+                  </footer>
+                </div>
+              </NavbarProvider>
+            </GearClosetProvider>
+          </PrefsProvider>
+        </SuitRulesProvider>
+      </UnitsProvider>
     </ThemeProvider>
   )
 }
@@ -11,12 +11,12 @@ export const Route = createFileRoute('/about')({
       {
         name: 'description',
         content:
-          'Learn about Dive Intel, the free scuba diving trip planner. Access ocean temperature data, dive site information, wetsuit recommendations, and dive planning tools for divers worldwide. NOAA satellite data for accurate dive trip planning.',
+          'Learn about Dive Intel, the free scuba diving trip planner. Access ocean temperature data, dive site information, wetsuit recommendations, and dive planning tools for divers worldwide. Ocean model data from the Open-Meteo Marine API for accurate dive trip planning.',
       },
       {
         name: 'keywords',
         content:
-          'scuba diving planner, dive trip planner, ocean temperature, dive site temperature, wetsuit recommendations, scuba diving tool, dive planning, NOAA ocean data, sea temperature, scuba gear planning, dive vacation planner, dive site search, underwater temperature, diving conditions, scuba trip organizer',
+          'scuba diving planner, dive trip planner, ocean temperature, dive site temperature, wetsuit recommendations, scuba diving tool, dive planning, ocean model data, sea temperature, scuba gear planning, dive vacation planner, dive site search, underwater temperature, diving conditions, scuba trip organizer',
       },
     ],
     scripts: [
@@ -70,7 +70,7 @@ export const Route = createFileRoute('/about')({
               name: 'What is Dive Intel?',
               acceptedAnswer: {
                 '@type': 'Answer',
-                text: 'Dive Intel is a free scuba diving trip planner that provides accurate ocean temperature data from NOAA satellites, helping divers plan their dive trips and choose the right wetsuit for any dive location worldwide.',
+                text: 'Dive Intel is a free scuba diving trip planner that provides ocean temperature data from the Open-Meteo Marine API, helping divers plan their dive trips and choose the right wetsuit for any dive location worldwide.',
               },
             },
             {
@@ -78,7 +78,7 @@ export const Route = createFileRoute('/about')({
               name: 'How accurate is the ocean temperature data?',
               acceptedAnswer: {
                 '@type': 'Answer',
-                text: 'Dive Intel uses NOAA satellite-derived sea surface temperature data at 0.05-degree resolution, updated daily. This provides highly accurate temperature readings for dive planning and wetsuit selection.',
+                text: 'Dive Intel uses hourly sea surface temperature from the Open-Meteo Marine API, which serves the Météo-France SMOC ocean model on a grid of roughly 0.08 degrees (about 9 km). Every result shows its source, the model cell that was sampled and when the data was fetched.',
               },
             },
             {
@@ -148,8 +148,8 @@ function AboutPage() {
               </div>
               <h3 className="text-xl font-semibold mb-3">Accurate Ocean Temperature Data</h3>
               <p className="text-muted-foreground">
-                Our sea surface temperature data comes from NOAA satellite observations, providing scuba divers with accurate
-                and up-to-date ocean conditions for any dive site worldwide. Perfect for dive trip planning and wetsuit selection.
+                Our sea surface temperature data comes from the Open-Meteo Marine API, providing scuba divers with
+                hourly, up-to-date ocean conditions for any dive site worldwide. Perfect for dive trip planning and wetsuit selection.
               </p>
             </div>
 
@@ -186,9 +186,10 @@ function AboutPage() {
           <h2 className="text-3xl font-bold mb-8">Professional-Grade Ocean Data for Scuba Diving</h2>
           <div className="prose prose-lg max-w-none">
             <p className="text-lg text-muted-foreground mb-4">
-              Dive Intel uses sea surface temperature data from the National Oceanic and Atmospheric
-              Administration (NOAA). This satellite-derived ocean temperature data provides accurate readings
-              at a 0.05-degree resolution, updated daily for optimal dive trip planning.
+              Dive Intel uses sea surface temperature from the Open-Meteo Marine API, which serves the
+              Météo-France SMOC ocean model at roughly 0.08-degree resolution with hourly values. Every
+              result lists its source, the model grid cell that was sampled and when the data was fetched,
+              so you always know where the numbers come from.
             </p>
             <p className="text-lg text-muted-foreground mb-6">
               We provide scuba divers with access to 7 years of historical temperature data and 7-day forecasts,
@@ -0,0 +1,154 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { z } from 'zod'
+import { gearClosetSchema } from '@/lib/closet'
+import { env } from '@/env'
+
+// Closet ids are random UUIDs minted by the browser; knowing one is the only access check
+const closetQuerySchema = z.object({
+  id: z.uuid(),
+})
+
+// A full closet serialises to well under 1 KB
+const MAX_BODY_BYTES = 4096
+
+export const Route = createFileRoute('/api/closet')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const dir = env.GEAR_CLOSET_DIR
+        const url = new URL(request.url)
+
+        // Without an id: whether server-side closets are available at all
+        if (!url.searchParams.has('id')) {
+          return json({ enabled: dir !== undefined })
+        }
+        if (!dir) return disabled()
+
+        const parseResult = closetQuerySchema.safeParse(
+          Object.fromEntries(url.searchParams),
+        )
+        if (!parseResult.success) {
+          return json(
+            { error: 'Invalid parameters', details: parseResult.error.issues },
+            { status: 400 },
+          )
+        }
+
+        try {
+          const raw = await readFile(closetPath(dir, parseResult.data.id), 'utf8')
+          const closet = gearClosetSchema.safeParse(JSON.parse(raw))
+          if (!closet.success) {
+            console.warn('Ignoring unreadable gear closet:', parseResult.data.id)
+            return notFound()
+          }
+          return json({ closet: closet.data })
+        } catch (err) {
+          if (isMissingFile(err)) return notFound()
+          console.error('Gear closet read error:', err)
+          return json({ error: 'Failed to read gear closet' }, { status: 500 })
+        }
+      },
+      PUT: async ({ request }) => {
+        const dir = env.GEAR_CLOSET_DIR
+        if (!dir) return disabled()
+
+        const url = new URL(request.url)
+        const query = closetQuerySchema.safeParse(
+          Object.fromEntries(url.searchParams),
+        )
+        const text = await readBody(request, MAX_BODY_BYTES)
+        if (text === null) {
+          return json(
+            { error: 'Gear closet is too large', code: 'TOO_LARGE' },
+            { status: 413 },
+          )
+        }
+        const body = gearClosetSchema.safeParse(parseJson(text))
+        if (!query.success || !body.success) {
+          return json(
+            {
+              error: 'Invalid parameters',
+              details: [
+                ...(query.error?.issues ?? []),
+                ...(body.error?.issues ?? []),
+              ],
+            },
+            { status: 400 },
+          )
+        }
+
+        try {
+          await mkdir(dir, { recursive: true })
+          await writeFile(
+            closetPath(dir, query.data.id),
+            JSON.stringify(body.data),
+            'utf8',
+          )
+          return json({ closet: body.data })
+        } catch (err) {
+          console.error('Gear closet write error:', err)
+          return json({ error: 'Failed to save gear closet' }, { status: 500 })
+        }
+      },
+    },
+  },
+})
+
+function closetPath(dir: string, id: string): string {
+  // id is a validated UUID, so it can't escape the directory
+  return path.join(dir, `${id}.json`)
+}
+
+/**
+ * Request body as text, or null once it exceeds maxBytes
+ * Checks Content-Length first, then counts bytes as they stream in, so an
+ * oversized or chunked body is never buffered whole
+ */
+async function readBody(request: Request, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const chunks: Array<Uint8Array> = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+function isMissingFile(err: unknown): boolean {
+  return err instanceof Error && 'code' in err && err.code === 'ENOENT'
+}
+
+function disabled() {
+  return json(
+    { error: 'Server-side gear closets are not enabled', code: 'DISABLED' },
+    { status: 404 },
+  )
+}
+
+function notFound() {
+  return json(
+    { error: 'No gear closet saved under this id', code: 'NOT_FOUND' },
+    { status: 404 },
+  )
+}
@@ -26,72 +26,34 @@ export const Route = createFileRoute('/api/geocode')({
         const { q } = parseResult.data
 
         const cacheKey = `geocode:${q.toLowerCase()}`
-        const cached = cache.get(cacheKey)
-        if (cached) {
-          return json(cached, {
+
+        try {
+          // Concurrent searches for the same query share one Geoapify call
+          const { value: payload } = await cache.getOrCompute(cacheKey, 86400, () =>
+            searchGeoapify(q),
+          )
+
+          return json(payload, {
             headers: {
               'Cache-Control': 'public, max-age=86400',
             },
           })
-        }
+        } catch (err) {
+          if (err instanceof GeocodeServiceError) {
+            return json(
+              { error: 'Geocoding service unavailable' },
+              { status: 502 },
+            )
+          }
 
-        try {
-          const geoapifyUrl = new URL('https://api.geoapify.com/v1/geocode/search')
-          geoapifyUrl.searchParams.set('text', q)
-          geoapifyUrl.searchParams.set('apiKey', env.GEOAPIFY_API_KEY)
-          geoapifyUrl.searchParams.set('limit', '5')
-          geoapifyUrl.searchParams.set('format', 'json')
-
-          // Add timeout to prevent hanging requests
-          const controller = new AbortController()
-          const timeoutId = setTimeout(() => controller.abort(), 8000) // 8s timeout
-
-          try {
-            const response = await fetch(geoapifyUrl.toString(), {
-              signal: controller.signal,
-            })
-
-            clearTimeout(timeoutId)
-
-            if (!response.ok) {
-              console.error(`Geoapify returned ${response.status}: ${response.statusText}`)
-              return json(
-                { error: 'Geocoding service unavailable' },
-                { status: 502 },
-              )
-            }
-
-            const data = await response.json()
-            const results = data.results || []
-
-            const locations = results.map((r: any) => ({
-              lat: r.lat,
-              lon: r.lon,
-              display: r.formatted,
-            }))
-
-            const payload = { locations }
-
-            cache.set(cacheKey, payload, 86400)
-
-            return json(payload, {
-              headers: {
-                'Cache-Control': 'public, max-age=86400',
-              },
-            })
-          } catch (fetchErr) {
-            clearTimeout(timeoutId)
-
-            if (fetchErr instanceof Error && fetchErr.name === 'AbortError') {
-              console.error(`Geocoding timeout for query: ${q}`)
-              return json(
-                { error: 'Geocoding request timed out' },
-                { status: 504 },
-              )
-            }
-            throw fetchErr
+          if (err instanceof Error && err.name === 'AbortError') {
+            console.error(`Geocoding timeout for query: ${q}`)
+            return json(
+              { error: 'Geocoding request timed out' },
+              { status: 504 },
+            )
           }
-        } catch (err) {
+
           console.error('Geocoding error:', err instanceof Error ? err.message : String(err), {
             query: q,
             error: err,
@@ -105,3 +67,44 @@ export const Route = createFileRoute('/api/geocode')({
     },
   },
 })
+
+/**
+ * Geoapify responded with a non-OK status
+ */
+class GeocodeServiceError extends Error {}
+
+async function searchGeoapify(q: string) {
+  const geoapifyUrl = new URL('https://api.geoapify.com/v1/geocode/search')
+  geoapifyUrl.searchParams.set('text', q)
+  geoapifyUrl.searchParams.set('apiKey', env.GEOAPIFY_API_KEY)
+  geoapifyUrl.searchParams.set('limit', '5')
+  geoapifyUrl.searchParams.set('format', 'json')
+
+  // Add timeout to prevent hanging requests
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 8000) // 8s timeout
+
+  try {
+    const response = await fetch(geoapifyUrl.toString(), {
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      console.error(`Geoapify returned ${response.status}: ${response.statusText}`)
+      throw new GeocodeServiceError(`Geoapify returned ${response.status}`)
+    }
+
+    const data = await response.json()
+    const results = data.results || []
+
+    const locations = results.map((r: any) => ({
+      lat: r.lat,
+      lon: r.lon,
+      display: r.formatted,
+    }))
+
+    return { locations }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
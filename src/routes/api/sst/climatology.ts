@@ -0,0 +1,157 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { z } from 'zod'
+import type { SuitRuleSetId } from '@/lib/suit-rules'
+import { cache } from '@/lib/cache'
+import { UpstreamUnavailableError } from '@/lib/upstream'
+import { mapWithConcurrency } from '@/lib/concurrency'
+import { fetchSSTRange, sourceMeta } from '@/lib/sst'
+import { suitForTemp } from '@/lib/suit'
+import { DEFAULT_RULE_SET_ID, SUIT_RULE_SET_IDS, getRuleSet } from '@/lib/suit-rules'
+import { summarize } from '@/lib/stats'
+
+const climatologyQuerySchema = z.object({
+  lat: z.string().regex(/^-?\d+\.?\d*$/),
+  lon: z.string().regex(/^-?\d+\.?\d*$/),
+  years: z.string().regex(/^\d+$/).optional().default('5'),
+  // Suit threshold rule set (see suit-rules)
+  rules: z.enum(SUIT_RULE_SET_IDS).optional().default(DEFAULT_RULE_SET_ID),
+})
+
+// Each year is one upstream range request; cap the total and how many run at once
+const MAX_YEARS = 20
+const FETCH_CONCURRENCY = 2
+
+export const Route = createFileRoute('/api/sst/climatology')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const url = new URL(request.url)
+        const params = Object.fromEntries(url.searchParams)
+
+        const parseResult = climatologyQuerySchema.safeParse(params)
+        if (!parseResult.success) {
+          return json(
+            { error: 'Invalid parameters', details: parseResult.error.issues },
+            { status: 400 },
+          )
+        }
+
+        const { lat: latStr, lon: lonStr, years: yearsStr, rules } = parseResult.data
+        const lat = parseFloat(latStr)
+        const lon = parseFloat(lonStr)
+        const years = parseInt(yearsStr)
+
+        if (years < 1 || years > MAX_YEARS) {
+          return json(
+            { error: `years must be between 1 and ${MAX_YEARS}` },
+            { status: 400 },
+          )
+        }
+
+        // Complete calendar years only, so every month has the same weight
+        const endYear = new Date().getUTCFullYear() - 1
+        const startYear = endYear - years + 1
+
+        const cacheKey = `climatology:${lat.toFixed(3)}:${lon.toFixed(3)}:${startYear}:${endYear}:${rules}`
+
+        try {
+          const { value: payload, source } = await cache.getOrCompute(cacheKey, 86400, () =>
+            buildClimatology(lat, lon, startYear, endYear, rules),
+          )
+
+          if (!payload) {
+            return json(
+              {
+                error: 'No ocean temperature data available for this location. Try clicking on ocean areas or searching for coastal cities.',
+                code: 'NO_DATA',
+              },
+              { status: 404 },
+            )
+          }
+
+          return json({ ...payload, meta: { ...payload.meta, cached: source === 'hit' } }, {
+            headers: {
+              'Cache-Control': 'public, max-age=86400',
+            },
+          })
+        } catch (err) {
+          if (err instanceof UpstreamUnavailableError) {
+            console.warn('Climatology fetch upstream unavailable:', err.message)
+            return json(
+              {
+                error: 'Ocean temperature service is temporarily unavailable. Please try again shortly.',
+                code: 'UPSTREAM_UNAVAILABLE',
+              },
+              {
+                status: 503,
+                headers: { 'Retry-After': String(err.retryAfterSec) },
+              },
+            )
+          }
+
+          console.error('Climatology fetch error:', err)
+          return json(
+            { error: 'Failed to fetch SST data' },
+            { status: 502 },
+          )
+        }
+      },
+    },
+  },
+})
+
+/**
+ * Fetch complete years of daily SST and summarize them per calendar month
+ * Returns null when no month has data (land, ice, etc.)
+ */
+async function buildClimatology(
+  lat: number,
+  lon: number,
+  startYear: number,
+  endYear: number,
+  rules: SuitRuleSetId,
+) {
+  const yearList = Array.from(
+    { length: endYear - startYear + 1 },
+    (_, i) => startYear + i,
+  )
+  const seriesList = await mapWithConcurrency(yearList, FETCH_CONCURRENCY, (y) =>
+    fetchSSTRange(lat, lon, `${y}-01-01`, `${y}-12-31`),
+  )
+
+  // Bucket daily means by calendar month (index 0 = January)
+  const byMonth: Array<Array<number>> = Array.from({ length: 12 }, () => [])
+  for (const series of seriesList) {
+    for (const day of series?.daily ?? []) {
+      if (day.temp === null) continue
+      byMonth[Number(day.date.slice(5, 7)) - 1].push(day.temp)
+    }
+  }
+
+  if (byMonth.every((temps) => temps.length === 0)) return null
+
+  // Years in the period the source had any data for
+  const yearsUsed = yearList.filter((_, i) =>
+    seriesList[i]?.daily.some((day) => day.temp !== null),
+  )
+  const cell = seriesList.find((s) => s?.cell)?.cell ?? null
+
+  const months = byMonth.map((temps, i) => {
+    const stats = summarize(temps)
+    return {
+      month: i + 1,
+      samples: temps.length,
+      stats,
+      suit: stats ? suitForTemp(stats.mean, { ruleSet: rules }) : null,
+    }
+  })
+
+  return {
+    location: { lat, lon },
+    period: { startYear, endYear },
+    ruleSet: { id: rules, name: getRuleSet(rules).name },
+    months,
+    meta: { ...sourceMeta(cell), yearsUsed },
+  }
+}
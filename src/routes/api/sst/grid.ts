@@ -2,14 +2,23 @@ import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { z } from 'zod'
 import { cache } from '@/lib/cache'
-import { fetchSSTGrid } from '@/lib/sst'
+import { UpstreamUnavailableError } from '@/lib/upstream'
+import { fetchSSTGrid, sourceMeta } from '@/lib/sst'
+import { fromCelsius, parseTempUnit } from '@/lib/units'
 
 const gridQuerySchema = z.object({
   bbox: z.string().regex(/^-?\d+\.?\d*,-?\d+\.?\d*,-?\d+\.?\d*,-?\d+\.?\d*$/),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   step: z.string().optional().default('0.5'),
+  // Unit for point temps (c or f)
+  units: z.enum(['c', 'f', 'C', 'F']).optional(),
 })
 
+// Enough for a regional sea at 0.25° (e.g. the Baltic's bounding box is ~4500 cells)
+// or the whole Mediterranean at 0.5° (~2800; at 0.25° it's ~11k cells, over the cap);
+// fetchSSTGrid splits this into URL-sized batches upstream
+const MAX_GRID_POINTS = 10000
+
 export const Route = createFileRoute('/api/sst/grid')({
   server: {
     handlers: {
@@ -25,18 +34,11 @@ export const Route = createFileRoute('/api/sst/grid')({
           )
         }
 
-        const { bbox, date, step } = parseResult.data
+        const { bbox, date, step, units: unitsStr } = parseResult.data
         const stepNum = parseFloat(step)
+        const units = parseTempUnit(unitsStr)
 
-        const cacheKey = `grid:${bbox}:${date}:${stepNum}`
-        const cached = cache.get(cacheKey)
-        if (cached) {
-          return json(cached, {
-            headers: {
-              'Cache-Control': 'public, max-age=900',
-            },
-          })
-        }
+        const cacheKey = `grid:${bbox}:${date}:${stepNum}:${units}`
 
         const [minLon, minLat, maxLon, maxLat] = bbox.split(',').map(Number)
 
@@ -55,7 +57,7 @@ export const Route = createFileRoute('/api/sst/grid')({
           }
         }
 
-        if (coords.length > 1000) {
+        if (coords.length > MAX_GRID_POINTS) {
           return json(
             {
               error: 'Grid too large',
@@ -66,17 +68,45 @@ export const Route = createFileRoute('/api/sst/grid')({
         }
 
         try {
-          const points = await fetchSSTGrid(coords, date)
-          const payload = { points }
-
-          cache.set(cacheKey, payload, 900)
+          // Concurrent requests for the same viewport share one upstream fan-out
+          // Partial grids (some batches failed) are only cached briefly
+          const { value: payload, source } = await cache.getOrCompute(
+            cacheKey,
+            (p) => (p.partial ? 60 : 900),
+            async () => {
+              const points = (await fetchSSTGrid(coords, date)).map((p) => ({
+                ...p,
+                temp: p.temp !== null ? fromCelsius(p.temp, units) : null,
+              }))
+              return {
+                units,
+                points,
+                partial: points.some((p) => p.failed),
+                meta: sourceMeta(),
+              }
+            },
+          )
 
-          return json(payload, {
+          return json({ ...payload, meta: { ...payload.meta, cached: source === 'hit' } }, {
             headers: {
-              'Cache-Control': 'public, max-age=900',
+              'Cache-Control': `public, max-age=${payload.partial ? 60 : 900}`,
             },
           })
         } catch (err) {
+          if (err instanceof UpstreamUnavailableError) {
+            console.warn('Grid fetch upstream unavailable:', err.message)
+            return json(
+              {
+                error: 'Ocean temperature service is temporarily unavailable. Please try again shortly.',
+                code: 'UPSTREAM_UNAVAILABLE',
+              },
+              {
+                status: 503,
+                headers: { 'Retry-After': String(err.retryAfterSec) },
+              },
+            )
+          }
+
           console.error('Grid fetch error:', err)
           return json(
             { error: 'Failed to fetch SST data' },
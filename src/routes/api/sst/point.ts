@@ -1,12 +1,48 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { z } from 'zod'
+import type { ResolvedCell, SSTSeries } from '@/lib/sst'
+import type { Suit } from '@/lib/suit'
+import type { TempUnit } from '@/lib/units'
+import type { MarineValues, MarineVariable } from '@/lib/marine'
+import type { SurfaceConditions } from '@/lib/atmosphere'
+import type { SuitRuleSetId } from '@/lib/suit-rules'
+import type { Activity } from '@/lib/activities'
+import type { TempStats } from '@/lib/stats'
+import type { PersonalPrefs } from '@/lib/prefs'
 import { cache } from '@/lib/cache'
-import { fetchSSTDayAvg, fetchSSTWithNudge } from '@/lib/sst'
-import { suitForTemp } from '@/lib/suit'
+import { UpstreamUnavailableError } from '@/lib/upstream'
+import {
+  diurnalProfile,
+  fetchSSTRange,
+  findNearestSeaCell,
+  hourlyEntryFor,
+  marineForDate,
+  sourceMeta,
+  sstForDate,
+} from '@/lib/sst'
+import { recommendSuits, suitForTemp } from '@/lib/suit'
+import { DEFAULT_RULE_SET_ID, SUIT_RULE_SET_IDS } from '@/lib/suit-rules'
+import { ACTIVITIES, DEFAULT_ACTIVITY, ruleSetFor } from '@/lib/activities'
+import { prefsFromQuery, prefsQuerySchema, prefsToQuery } from '@/lib/prefs'
+import { fetchSurfaceConditions } from '@/lib/atmosphere'
+import {
+  THERMOCLINE_MODEL,
+  estimateTempAtDepth,
+  thermoclineParams,
+} from '@/lib/thermocline'
+import { percentileRank, summarize } from '@/lib/stats'
+import { deltaFromCelsius, fromCelsius, parseTempUnit } from '@/lib/units'
+import { timeZoneAbbreviation, utcOffsetSeconds } from '@/lib/timezone'
+import {
+  DEFAULT_MARINE_VARIABLES,
+  MARINE_VARIABLES,
+  isMarineVariable,
+} from '@/lib/marine'
 import {
   getForecastDates,
   getHistoricalDates,
+  groupDateRanges,
   isValidISODate,
 } from '@/lib/dates'
 
@@ -14,11 +50,34 @@ const pointQuerySchema = z.object({
   lat: z.string().regex(/^-?\d+\.?\d*$/),
   lon: z.string().regex(/^-?\d+\.?\d*$/),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  time: z.string().regex(/^\d{2}:\d{2}$/).optional(), // HH:mm format
+  time: z.string().regex(/^\d{2}:\d{2}$/).optional(), // HH:mm, site-local time
   years: z.string().optional().default('3'),
   forecastDays: z.string().optional().default('2'),
+  // Include the selected date's hourly values and diurnal range
+  hourly: z.enum(['true', 'false', '1', '0']).optional(),
+  // Unit for temp/stats/diurnal values and suit notes; tempC stays Celsius
+  units: z.enum(['c', 'f', 'C', 'F']).optional(),
+  // Comma-separated sea-state variables (e.g. wave_height,ocean_current_velocity), or "none"
+  marine: z
+    .string()
+    .refine(
+      (v) => v === 'none' || v.split(',').every(isMarineVariable),
+      { message: `Expected "none" or a comma-separated list of: ${Object.keys(MARINE_VARIABLES).join(', ')}` },
+    )
+    .optional(),
+  // Planned maximum depth in metres; adds estimated temperature at depth
+  depth: z.string().regex(/^\d+\.?\d*$/).optional(),
+  // Suit threshold rule set (see suit-rules)
+  rules: z.enum(SUIT_RULE_SET_IDS).optional().default(DEFAULT_RULE_SET_ID),
+  // Selects the suit catalog; rules only apply to scuba
+  activity: z.enum(ACTIVITIES).optional().default(DEFAULT_ACTIVITY),
+  // Personal preferences (runsCold, diveMinutes, ...; see prefs)
+  ...prefsQuerySchema.shape,
 })
 
+// Deeper than recreational/technical dive planning makes sense for
+const MAX_DEPTH_M = 100
+
 export const Route = createFileRoute('/api/sst/point')({
   server: {
     handlers: {
@@ -34,87 +93,47 @@ export const Route = createFileRoute('/api/sst/point')({
           )
         }
 
-        const { lat: latStr, lon: lonStr, date, time, years: yearsStr, forecastDays: forecastDaysStr } = parseResult.data
+        const { lat: latStr, lon: lonStr, date, time, years: yearsStr, forecastDays: forecastDaysStr, hourly: hourlyStr, units: unitsStr, marine: marineStr, depth: depthStr, rules, activity } = parseResult.data
+        const personal = prefsFromQuery(parseResult.data)
         const lat = parseFloat(latStr)
         const lon = parseFloat(lonStr)
         const years = parseInt(yearsStr)
         const forecastDays = parseInt(forecastDaysStr)
+        const includeHourly = hourlyStr === 'true' || hourlyStr === '1'
+        const units = parseTempUnit(unitsStr)
+        const marine =
+          marineStr === undefined
+            ? DEFAULT_MARINE_VARIABLES
+            : marineStr === 'none'
+              ? []
+              : [...new Set(marineStr.split(',').filter(isMarineVariable))]
+
+        const depth = depthStr !== undefined ? parseFloat(depthStr) : undefined
 
-        // Parse hour from time parameter (HH:mm)
+        // Parse hour from time parameter (HH:mm), a wall-clock hour at the site
         const hour = time ? parseInt(time.split(':')[0]) : undefined
 
+        if (depth !== undefined && depth > MAX_DEPTH_M) {
+          return json(
+            { error: `depth must be at most ${MAX_DEPTH_M} m` },
+            { status: 400 },
+          )
+        }
+
         if (!isValidISODate(date)) {
           return json({ error: 'Invalid date format' }, { status: 400 })
         }
 
-        const cacheKey = `point:${lat.toFixed(3)}:${lon.toFixed(3)}:${date}:${time || 'avg'}:${years}:${forecastDays}`
-        const cached = cache.get(cacheKey)
-        if (cached) {
-          return json(cached, {
-            headers: {
-              'Cache-Control': 'public, max-age=1800',
-            },
-          })
-        }
+        const cacheKey = `point:${lat.toFixed(3)}:${lon.toFixed(3)}:${date}:${time || 'avg'}:${years}:${forecastDays}:${includeHourly ? 'h' : 'd'}:${units}:${marine.join('+') || 'none'}:${depth ?? 'surface'}:${rules}:${activity}:${prefsToQuery(personal) || 'noprefs'}`
 
         try {
-          // Historical: 3 years × 3 dates (±1 day)
-          const historicalDates = getHistoricalDates(date, years)
-          const historicalTemps = await Promise.all(
-            historicalDates.map((d) => fetchSSTDayAvg(lat, lon, d, hour)),
+          // Concurrent requests for the same point share one upstream fan-out
+          const { value: payload, source } = await cache.getOrCompute(cacheKey, 1800, () =>
+            buildPointPayload({ lat, lon, date, hour, years, forecastDays, includeHourly, units, marine, depth, rules, activity, personal }),
           )
 
-          const historicalRows = historicalDates.map((d, i) => ({
-            date: d,
-            tempC: historicalTemps[i],
-            suit: historicalTemps[i] !== null ? suitForTemp(historicalTemps[i]) : null,
-            kind: 'historical' as const,
-          }))
-
-          // Replace year blocks with no data with a single "No data" row
-          const filteredHistoricalRows: typeof historicalRows = []
-          for (let i = 0; i < historicalRows.length; i += 3) {
-            const yearBlock = historicalRows.slice(i, i + 3)
-            const hasData = yearBlock.some(row => row.tempC !== null)
-            if (hasData) {
-              filteredHistoricalRows.push(...yearBlock)
-            } else {
-              // Add a single "No data" row for this year
-              const yearDate = yearBlock[0].date
-              filteredHistoricalRows.push({
-                date: yearDate,
-                tempC: null,
-                suit: null,
-                kind: 'no-data' as const,
-              })
-            }
-          }
-
-          // Forecast: selected date ±2 days (5 dates including selected)
-          const forecastDates = getForecastDates(date, forecastDays)
-          const forecastTemps = await Promise.all(
-            forecastDates.map((d) => fetchSSTDayAvg(lat, lon, d, hour)),
-          )
-
-          const forecastRows = forecastDates.map((d, i) => ({
-            date: d,
-            tempC: forecastTemps[i],
-            suit: forecastTemps[i] !== null ? suitForTemp(forecastTemps[i]) : null,
-            kind: (d === date ? 'selected' : 'forecast') as const,
-          }))
-
-          // Combine: historical first, then forecast range
-          const rows = [
-            ...filteredHistoricalRows,
-            ...forecastRows,
-          ]
-
-          const validTemps = rows
-            .filter((r) => r.tempC !== null)
-            .map((r) => r.tempC as number)
-
           // If no valid temperatures at all, return error
-          if (validTemps.length === 0) {
+          if (!payload) {
             return json(
               {
                 error: 'No ocean temperature data available for this location. Try clicking on ocean areas or searching for coastal cities.',
@@ -124,30 +143,26 @@ export const Route = createFileRoute('/api/sst/point')({
             )
           }
 
-          const stats = validTemps.length
-            ? {
-                mean: validTemps.reduce((a, b) => a + b, 0) / validTemps.length,
-                min: Math.min(...validTemps),
-                max: Math.max(...validTemps),
-                p10: quantile(validTemps, 0.1),
-                p90: quantile(validTemps, 0.9),
-              }
-            : null
-
-          const payload = {
-            location: { lat, lon },
-            rows,
-            stats,
-          }
-
-          cache.set(cacheKey, payload, 1800)
-
-          return json(payload, {
+          return json({ ...payload, meta: { ...payload.meta, cached: source === 'hit' } }, {
             headers: {
               'Cache-Control': 'public, max-age=1800',
             },
           })
         } catch (err) {
+          if (err instanceof UpstreamUnavailableError) {
+            console.warn('Point fetch upstream unavailable:', err.message)
+            return json(
+              {
+                error: 'Ocean temperature service is temporarily unavailable. Please try again shortly.',
+                code: 'UPSTREAM_UNAVAILABLE',
+              },
+              {
+                status: 503,
+                headers: { 'Retry-After': String(err.retryAfterSec) },
+              },
+            )
+          }
+
           console.error('Point fetch error:', err)
           return json(
             { error: 'Failed to fetch SST data' },
@@ -159,14 +174,320 @@ export const Route = createFileRoute('/api/sst/point')({
   },
 })
 
-function quantile(arr: Array<number>, q: number): number {
-  const sorted = [...arr].sort((a, b) => a - b)
-  const pos = (sorted.length - 1) * q
-  const base = Math.floor(pos)
-  const rest = pos - base
-  const nextIndex = base + 1
-  if (nextIndex < sorted.length) {
-    return sorted[base] + rest * (sorted[nextIndex] - sorted[base])
+interface PointQuery {
+  lat: number
+  lon: number
+  date: string
+  hour?: number
+  years: number
+  forecastDays: number
+  includeHourly: boolean
+  units: TempUnit
+  marine: Array<MarineVariable>
+  /** Planned maximum depth in metres */
+  depth?: number
+  rules: SuitRuleSetId
+  activity: Activity
+  personal: PersonalPrefs
+}
+
+interface PointRow {
+  date: string
+  tempC: number | null
+  /** tempC in the requested units */
+  temp: number | null
+  /** Estimated temperature at the requested depth, null without a depth */
+  depthTempC: number | null
+  depthTemp: number | null
+  /** Sized for the colder of surface and depth */
+  suit: Suit | null
+  /** Sea-state values for the requested variables, null when none were requested */
+  marine: MarineValues | null
+  kind: 'historical' | 'selected' | 'forecast' | 'no-data'
+}
+
+/**
+ * Build the point payload, snapping to the nearest sea cell when the
+ * requested coordinate has no data (coastal clicks often land on a land cell)
+ * Returns null when no sea cell nearby has data either
+ */
+async function buildPointPayload(query: PointQuery) {
+  const { lat, lon, date, hour, units, marine, depth, rules, activity, personal } = query
+  const prefs = { ...personal, ruleSet: rules, activity }
+  const ruleSet = ruleSetFor(activity, rules)
+  let resolved: ResolvedCell = { lat, lon, distanceKm: 0 }
+
+  // Surface weather is advisory: never fail the SST response over it
+  const surfacePromise = fetchSurfaceConditions(lat, lon, date, hour).catch(
+    (err: unknown) => {
+      console.warn('Surface conditions unavailable:', err)
+      return null
+    },
+  )
+
+  let result = await buildRows(query, lat, lon)
+
+  if (!result) {
+    const cell = await findNearestSeaCell(lat, lon, date)
+    if (!cell) return null
+
+    resolved = cell
+    result = await buildRows(query, cell.lat, cell.lon)
+    if (!result) return null
+  }
+
+  const { stats, depthStats, anomaly, diurnal, timezone, cell } = result
+  const surface = await surfacePromise
+
+  // Surface conditions are for the selected date only
+  const rows = surface
+    ? result.rows.map((r) =>
+        r.kind === 'selected' && r.tempC !== null
+          ? { ...r, suit: suitForTemp(r.depthTempC ?? r.tempC, prefs, units, surface) }
+          : r,
+      )
+    : result.rows
+
+  // Size for the whole spread of days, not just their mean
+  // Surface conditions are for the selected date only, as in the rows
+  const samples = result.rows.flatMap((r) =>
+    r.tempC !== null
+      ? [{
+          tempC: r.depthTempC ?? r.tempC,
+          surface: r.kind === 'selected' ? surface ?? undefined : undefined,
+        }]
+      : [],
+  )
+  const recommendation = recommendSuits(samples, prefs, units)
+  const convert = (t: number) => fromCelsius(t, units)
+
+  return {
+    location: { lat, lon },
+    resolved,
+    timezone,
+    units,
+    activity,
+    ruleSet: { id: ruleSet.id, name: ruleSet.name },
+    prefs: personal,
+    marineVariables: marine.map((key) => ({
+      key,
+      label: MARINE_VARIABLES[key].label,
+      unit: MARINE_VARIABLES[key].unit,
+    })),
+    rows,
+    stats: stats && convertStats(stats, units),
+    depth: depth !== undefined
+      ? {
+          meters: depth,
+          model: THERMOCLINE_MODEL,
+          // Thermocline parameters for the selected date at the sampled cell
+          ...thermoclineParams(resolved.lat, date),
+        }
+      : null,
+    depthStats: depthStats && convertStats(depthStats, units),
+    recommendation,
+    anomaly: anomaly && {
+      ...anomaly,
+      delta: deltaFromCelsius(anomaly.deltaC, units),
+      historicalMean: fromCelsius(anomaly.historicalMeanC, units),
+    },
+    surface: surface && surfacePayload(surface, units),
+    diurnal: diurnal && {
+      ...diurnal,
+      hours: diurnal.hours.map((h) => ({
+        hour: h.hour,
+        temp: h.temp !== null ? convert(h.temp) : null,
+      })),
+      min: convert(diurnal.min),
+      max: convert(diurnal.max),
+    },
+    meta: sourceMeta(cell),
+  }
+}
+
+function convertStats(stats: TempStats, units: TempUnit): TempStats {
+  return {
+    mean: fromCelsius(stats.mean, units),
+    min: fromCelsius(stats.min, units),
+    max: fromCelsius(stats.max, units),
+    p10: fromCelsius(stats.p10, units),
+    p90: fromCelsius(stats.p90, units),
+  }
+}
+
+/**
+ * Surface conditions for the payload: °C values plus converted copies
+ */
+function surfacePayload(surface: SurfaceConditions, units: TempUnit) {
+  return {
+    ...surface,
+    airTemp: fromCelsius(surface.airTempC, units),
+    windChill: fromCelsius(surface.windChillC, units),
+  }
+}
+
+/**
+ * Fetch historical and forecast SST around a date for one coordinate
+ * Returns null when no date in the window has data (land, ice, etc.)
+ */
+async function buildRows(
+  { date, hour, years, forecastDays, includeHourly, units, marine, depth, rules, activity, personal }: PointQuery,
+  lat: number,
+  lon: number,
+) {
+  // Historical: 3 years × 3 dates (±1 day)
+  const historicalDates = getHistoricalDates(date, years)
+  // Forecast: selected date ±2 days (5 dates including selected)
+  const forecastDates = getForecastDates(date, forecastDays)
+
+  // One upstream request per contiguous window (one per year plus
+  // the forecast range) instead of one per date
+  const ranges = groupDateRanges([...historicalDates, ...forecastDates])
+  const seriesList = await Promise.all(
+    ranges.map((r) => fetchSSTRange(lat, lon, r.start, r.end, { marine })),
+  )
+  const seriesFor = (d: string) =>
+    seriesList[ranges.findIndex((r) => d >= r.start && d <= r.end)]
+  const tempFor = (d: string): number | null => {
+    const series = seriesFor(d)
+    return series ? sstForDate(series, d, hour) : null
+  }
+  const marineFor = (d: string): MarineValues | null => {
+    if (!marine.length) return null
+    const series = seriesFor(d)
+    return series ? marineForDate(series, d, hour) : null
+  }
+
+  const rowFor = (d: string, kind: PointRow['kind']): PointRow => {
+    const tempC = tempFor(d)
+    const depthTempC =
+      tempC !== null && depth !== undefined
+        ? estimateTempAtDepth(tempC, depth, lat, d).tempC
+        : null
+    // Depth is never warmer than the surface in the model, but be explicit
+    const designTempC =
+      tempC !== null && depthTempC !== null ? Math.min(tempC, depthTempC) : tempC
+
+    return {
+      date: d,
+      tempC,
+      temp: tempC !== null ? fromCelsius(tempC, units) : null,
+      depthTempC,
+      depthTemp: depthTempC !== null ? fromCelsius(depthTempC, units) : null,
+      suit: designTempC !== null ? suitForTemp(designTempC, { ...personal, ruleSet: rules, activity }, units) : null,
+      marine: marineFor(d),
+      kind,
+    }
+  }
+
+  const historicalRows = historicalDates.map((d) => rowFor(d, 'historical'))
+
+  // Replace year blocks with no data with a single "No data" row
+  const filteredHistoricalRows: Array<PointRow> = []
+  for (let i = 0; i < historicalRows.length; i += 3) {
+    const yearBlock = historicalRows.slice(i, i + 3)
+    const hasData = yearBlock.some(row => row.tempC !== null)
+    if (hasData) {
+      filteredHistoricalRows.push(...yearBlock)
+    } else {
+      // Add a single "No data" row for this year
+      const yearDate = yearBlock[0].date
+      filteredHistoricalRows.push({
+        date: yearDate,
+        tempC: null,
+        temp: null,
+        depthTempC: null,
+        depthTemp: null,
+        suit: null,
+        marine: null,
+        kind: 'no-data',
+      })
+    }
+  }
+
+  const forecastRows = forecastDates.map((d) =>
+    rowFor(d, d === date ? 'selected' : 'forecast'),
+  )
+
+  // Combine: historical first, then forecast range
+  const rows = [
+    ...filteredHistoricalRows,
+    ...forecastRows,
+  ]
+
+  const validTemps = rows
+    .filter((r) => r.tempC !== null)
+    .map((r) => r.tempC as number)
+
+  if (validTemps.length === 0) return null
+
+  const stats = summarize(validTemps)
+  const depthStats = summarize(
+    rows.flatMap((r) => (r.depthTempC !== null ? [r.depthTempC] : [])),
+  )
+  const anomaly = selectedAnomaly(rows)
+
+  // Hourly profile for the selected date, from the same forecast range
+  const selectedSeries = seriesFor(date)
+  const diurnal =
+    includeHourly && selectedSeries ? diurnalProfile(selectedSeries, date) : null
+
+  return {
+    rows,
+    stats,
+    depthStats,
+    anomaly,
+    diurnal,
+    timezone: selectedSeries ? siteTimezone(selectedSeries, date, hour) : null,
+    cell: selectedSeries?.cell ?? seriesList.find((s) => s?.cell)?.cell ?? null,
+  }
+}
+
+// Fewer historical samples than this make anomalies meaningless
+const MIN_ANOMALY_SAMPLES = 3
+
+/**
+ * How the selected date compares with the same dates in previous years
+ * Returns null without a selected value or enough historical samples
+ */
+function selectedAnomaly(rows: Array<PointRow>) {
+  const selected = rows.find((r) => r.kind === 'selected')?.tempC ?? null
+  const historical = rows.flatMap((r) =>
+    r.kind === 'historical' && r.tempC !== null ? [r.tempC] : [],
+  )
+  if (selected === null || historical.length < MIN_ANOMALY_SAMPLES) return null
+
+  const historicalMeanC =
+    historical.reduce((a, b) => a + b, 0) / historical.length
+
+  return {
+    /** Selected minus historical mean, °C */
+    deltaC: selected - historicalMeanC,
+    historicalMeanC,
+    /** Where the selected value falls among historical values (0-100) */
+    percentile: percentileRank(historical, selected),
+    samples: historical.length,
+  }
+}
+
+/**
+ * Site time zone and UTC offset in effect at the selected date/hour
+ * localTime is the wall-clock hour the temperatures refer to (it moves
+ * forward when the requested hour is skipped by a DST change)
+ * Returns null for sources without a time zone or hourly data
+ */
+function siteTimezone(series: SSTSeries, date: string, hour?: number) {
+  if (!series.timezone) return null
+
+  // Day averages: report the offset at midday
+  const entry = hourlyEntryFor(series, date, hour ?? 12)
+  if (!entry) return null
+
+  return {
+    name: series.timezone,
+    abbreviation: timeZoneAbbreviation(series.timezone, entry.epochMs),
+    utcOffsetSeconds: utcOffsetSeconds(series.timezone, entry.epochMs),
+    localTime: hour !== undefined ? entry.time : null,
+    utcTime: hour !== undefined ? new Date(entry.epochMs).toISOString() : null,
   }
-  return sorted[base]
 }
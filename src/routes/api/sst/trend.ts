@@ -0,0 +1,188 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { z } from 'zod'
+import type { LinearTrend, YearValue } from '@/lib/trend'
+import type { TempUnit } from '@/lib/units'
+import { cache } from '@/lib/cache'
+import { UpstreamUnavailableError } from '@/lib/upstream'
+import { fetchSSTRange, sourceMeta } from '@/lib/sst'
+import { mapWithConcurrency } from '@/lib/concurrency'
+import { dayOfYear, isValidISODate } from '@/lib/dates'
+import { annualMeans, dayOfYearMeans, linearTrend } from '@/lib/trend'
+import { deltaFromCelsius, fromCelsius, parseTempUnit } from '@/lib/units'
+
+const trendQuerySchema = z.object({
+  lat: z.string().regex(/^-?\d+\.?\d*$/),
+  lon: z.string().regex(/^-?\d+\.?\d*$/),
+  // Centre of the day-of-year window
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  years: z.string().regex(/^\d+$/).optional().default('20'),
+  // ± days around the date's day of year
+  window: z.string().regex(/^\d+$/).optional().default('7'),
+  units: z.enum(['c', 'f', 'C', 'F']).optional(),
+})
+
+const MAX_YEARS = 40
+const MAX_WINDOW_DAYS = 45
+// Years per upstream request: long enough to keep request count low, short
+// enough to stay well inside upstream response limits
+const CHUNK_YEARS = 5
+const FETCH_CONCURRENCY = 2
+
+export const Route = createFileRoute('/api/sst/trend')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const url = new URL(request.url)
+        const params = Object.fromEntries(url.searchParams)
+
+        const parseResult = trendQuerySchema.safeParse(params)
+        if (!parseResult.success) {
+          return json(
+            { error: 'Invalid parameters', details: parseResult.error.issues },
+            { status: 400 },
+          )
+        }
+
+        const { lat: latStr, lon: lonStr, date, years: yearsStr, window: windowStr, units: unitsStr } = parseResult.data
+        const lat = parseFloat(latStr)
+        const lon = parseFloat(lonStr)
+        const years = parseInt(yearsStr)
+        const windowDays = parseInt(windowStr)
+        const units = parseTempUnit(unitsStr)
+
+        if (!isValidISODate(date)) {
+          return json({ error: 'Invalid date format' }, { status: 400 })
+        }
+
+        if (years < 3 || years > MAX_YEARS) {
+          return json(
+            { error: `years must be between 3 and ${MAX_YEARS}` },
+            { status: 400 },
+          )
+        }
+
+        if (windowDays > MAX_WINDOW_DAYS) {
+          return json(
+            { error: `window must be at most ${MAX_WINDOW_DAYS} days` },
+            { status: 400 },
+          )
+        }
+
+        // Complete calendar years only, like climatology
+        const endYear = new Date().getUTCFullYear() - 1
+        const startYear = endYear - years + 1
+        const doy = dayOfYear(date)
+
+        // Cache the °C analysis; unit conversion is cheap
+        const cacheKey = `trend:${lat.toFixed(3)}:${lon.toFixed(3)}:${startYear}:${endYear}:${doy}:${windowDays}`
+
+        try {
+          const { value: analysis, source } = await cache.getOrCompute(cacheKey, 86400, () =>
+            buildTrend(lat, lon, startYear, endYear, doy, windowDays),
+          )
+
+          if (!analysis) {
+            return json(
+              {
+                error: 'No ocean temperature history available for this location.',
+                code: 'NO_DATA',
+              },
+              { status: 404 },
+            )
+          }
+
+          return json(
+            {
+              location: { lat, lon },
+              period: { startYear, endYear },
+              window: { date, dayOfYear: doy, days: windowDays },
+              units,
+              dayOfYear: convertSeries(analysis.dayOfYear, units),
+              annual: convertSeries(analysis.annual, units),
+              meta: { ...analysis.meta, cached: source === 'hit' },
+            },
+            {
+              headers: {
+                'Cache-Control': 'public, max-age=86400',
+              },
+            },
+          )
+        } catch (err) {
+          if (err instanceof UpstreamUnavailableError) {
+            console.warn('Trend fetch upstream unavailable:', err.message)
+            return json(
+              {
+                error: 'Ocean temperature service is temporarily unavailable. Please try again shortly.',
+                code: 'UPSTREAM_UNAVAILABLE',
+              },
+              {
+                status: 503,
+                headers: { 'Retry-After': String(err.retryAfterSec) },
+              },
+            )
+          }
+
+          console.error('Trend fetch error:', err)
+          return json(
+            { error: 'Failed to fetch SST data' },
+            { status: 502 },
+          )
+        }
+      },
+    },
+  },
+})
+
+/**
+ * Fetch the daily series in multi-year chunks and fit both trends (°C)
+ * Returns null when the location has no history at all
+ */
+async function buildTrend(
+  lat: number,
+  lon: number,
+  startYear: number,
+  endYear: number,
+  doy: number,
+  windowDays: number,
+) {
+  const chunks: Array<{ start: string; end: string }> = []
+  for (let y = startYear; y <= endYear; y += CHUNK_YEARS) {
+    const last = Math.min(y + CHUNK_YEARS - 1, endYear)
+    chunks.push({ start: `${y}-01-01`, end: `${last}-12-31` })
+  }
+
+  const seriesList = await mapWithConcurrency(chunks, FETCH_CONCURRENCY, (c) =>
+    fetchSSTRange(lat, lon, c.start, c.end),
+  )
+  const daily = seriesList.flatMap((s) => s?.daily ?? [])
+  if (!daily.some((d) => d.temp !== null)) return null
+
+  const windowPoints = dayOfYearMeans(daily, doy, windowDays)
+  const annualPoints = annualMeans(daily)
+  const cell = seriesList.find((s) => s?.cell)?.cell ?? null
+
+  return {
+    dayOfYear: { points: windowPoints, trend: linearTrend(windowPoints) },
+    annual: { points: annualPoints, trend: linearTrend(annualPoints) },
+    meta: sourceMeta(cell),
+  }
+}
+
+function convertSeries(
+  series: { points: Array<YearValue>; trend: LinearTrend | null },
+  units: TempUnit,
+) {
+  const { points, trend } = series
+  return {
+    points: points.map((p) => ({ ...p, temp: fromCelsius(p.temp, units) })),
+    trend: trend && {
+      ...trend,
+      perDecade: deltaFromCelsius(trend.perDecade, units),
+      ciLow: deltaFromCelsius(trend.ciLow, units),
+      ciHigh: deltaFromCelsius(trend.ciHigh, units),
+      slope: deltaFromCelsius(trend.slope, units),
+      intercept: fromCelsius(trend.intercept, units),
+    },
+  }
+}
@@ -1,8 +1,13 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useCallback, useState } from 'react'
 import { Calendar, MapPin, Thermometer } from 'lucide-react'
+import type { SuitBand } from '@/lib/suit-rules'
 import { SearchBar } from '@/components/SearchBar'
+import { SuitRulesSelect } from '@/components/SuitRulesSelect'
+import { useSuitRules } from '@/components/SuitRulesProvider'
 import { getTodayISO } from '@/lib/dates'
+import { ruleBands } from '@/lib/suit-rules'
+import { fromCelsius } from '@/lib/units'
 
 export const Route = createFileRoute('/')({
   component: LandingPage,
@@ -47,6 +52,7 @@ export const Route = createFileRoute('/')({
 
 function LandingPage() {
   const navigate = useNavigate()
+  const { ruleSet } = useSuitRules()
   const [selectedDateTime, setSelectedDateTime] = useState(() => {
     const today = getTodayISO()
     return `${today}T12:00:00`
@@ -159,16 +165,19 @@ function LandingPage() {
               Water temperature is crucial for scuba diving comfort and safety. Whether you're planning a tropical dive vacation or exploring local cold-water sites, knowing the exact ocean temperature helps you pack the right gear.
             </p>
             <p className="text-lg text-muted-foreground mb-6">
-              Dive Intel provides accurate sea surface temperature data from NOAA satellites, giving you reliable information for wetsuit selection, drysuit planning, and overall dive preparation. Our tool shows both historical temperature trends and upcoming forecasts, so you can plan your scuba diving trips with confidence.
+              Dive Intel provides hourly sea surface temperature data from the Open-Meteo Marine API, giving you reliable information for wetsuit selection, drysuit planning, and overall dive preparation. Our tool shows both historical temperature trends and upcoming forecasts, so you can plan your scuba diving trips with confidence.
             </p>
             <div className="bg-background rounded-lg p-6 border">
-              <h3 className="text-xl font-semibold mb-4">Common Wetsuit Thickness Guidelines</h3>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h3 className="text-xl font-semibold">Common Wetsuit Thickness Guidelines</h3>
+                <SuitRulesSelect id="landing-suit-rules" />
+              </div>
               <ul className="space-y-2 text-muted-foreground">
-                <li><strong>Above 80°F (27°C):</strong> Shorty wetsuit or rash guard</li>
-                <li><strong>75-80°F (24-27°C):</strong> 3mm full wetsuit</li>
-                <li><strong>65-75°F (18-24°C):</strong> 5mm wetsuit</li>
-                <li><strong>50-65°F (10-18°C):</strong> 7mm wetsuit or semi-dry suit</li>
-                <li><strong>Below 50°F (10°C):</strong> Drysuit recommended</li>
+                {ruleBands(ruleSet).map((band) => (
+                  <li key={band.rule.type + band.rule.note}>
+                    <strong>{bandRange(band)}:</strong> {band.label}
+                  </li>
+                ))}
               </ul>
             </div>
           </div>
@@ -195,3 +204,16 @@ function LandingPage() {
     </div>
   )
 }
+
+/**
+ * Band bounds in both units, e.g. "75-80°F (24-27°C)"
+ */
+function bandRange({ minTempC, maxTempC }: SuitBand): string {
+  const f = (c: number) => Math.round(fromCelsius(c, 'F'))
+  if (minTempC !== undefined && maxTempC !== undefined) {
+    return `${f(minTempC)}-${f(maxTempC)}°F (${minTempC}-${maxTempC}°C)`
+  }
+  if (minTempC !== undefined) return `Above ${f(minTempC)}°F (${minTempC}°C)`
+  if (maxTempC !== undefined) return `Below ${f(maxTempC)}°F (${maxTempC}°C)`
+  return 'Any temperature'
+}
@@ -2,14 +2,20 @@ import { createFileRoute, useNavigate, useSearch } from '@tanstack/react-router'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { z } from 'zod'
 import { MapPin } from 'lucide-react'
-import type { SidebarRow } from '@/components/SidebarTable'
+import type { SidebarRow, SidebarTableProps } from '@/components/SidebarTable'
+import type { Activity } from '@/lib/activities'
 import { ErrorState } from '@/components/ErrorState'
 import { LoadingSkeleton } from '@/components/LoadingSkeleton'
 import { SearchBar } from '@/components/SearchBar'
 import { SidebarTable } from '@/components/SidebarTable'
 import { SSTMap } from '@/components/SSTMap'
 import { getTodayISO } from '@/lib/dates'
+import { ACTIVITIES } from '@/lib/activities'
+import { personalPrefsSchema, prefsToQuery } from '@/lib/prefs'
 import { useNavbarContent } from '@/components/NavbarContext'
+import { useUnits } from '@/components/UnitsProvider'
+import { useSuitRules } from '@/components/SuitRulesProvider'
+import { usePrefs } from '@/components/PrefsProvider'
 import { Drawer, DrawerContent } from '@/components/ui/drawer'
 import { useMediaQuery } from '@/hooks/useMediaQuery'
 
@@ -18,6 +24,9 @@ const searchSchema = z.object({
   lat: z.number().optional(),
   lon: z.number().optional(),
   datetime: z.string().optional(), // ISO datetime string (YYYY-MM-DDTHH:mm:ss)
+  depth: z.number().optional(), // Planned max depth in metres
+  activity: z.enum(ACTIVITIES).optional(), // Suit catalog; defaults to scuba
+  ...personalPrefsSchema.shape, // runsCold, diveMinutes, ... so shared links carry them
 })
 
 export const Route = createFileRoute('/map')({
@@ -31,14 +40,34 @@ interface PointData {
     lon: number
     display?: string
   }
+  resolved?: {
+    lat: number
+    lon: number
+    distanceKm: number
+  }
+  timezone?: SidebarTableProps['timezone']
+  units?: SidebarTableProps['units']
+  marineVariables?: SidebarTableProps['marineVariables']
   rows: Array<SidebarRow>
   stats: any
+  surface?: SidebarTableProps['surface']
+  activity?: SidebarTableProps['activity']
+  depth?: SidebarTableProps['depth']
+  depthStats?: SidebarTableProps['depthStats']
+  recommendation?: SidebarTableProps['recommendation']
+  anomaly?: SidebarTableProps['anomaly']
+  diurnal?: SidebarTableProps['diurnal']
+  meta?: SidebarTableProps['meta']
 }
 
 function MapPage() {
   const navigate = useNavigate()
   const searchParams = useSearch({ from: '/map' })
   const { setNavbarContent } = useNavbarContent()
+  const { units } = useUnits()
+  const { ruleSetId } = useSuitRules()
+  const { prefs, applySharedPrefs } = usePrefs()
+  const prefsQuery = useMemo(() => prefsToQuery(prefs), [prefs])
 
   // Initialize with datetime from URL or default to today at noon
   const [selectedDateTime, setSelectedDateTime] = useState(() => {
@@ -48,6 +77,8 @@ function MapPage() {
     const today = getTodayISO()
     return `${today}T12:00:00`
   })
+  const [depth, setDepth] = useState<number | null>(searchParams.depth ?? null)
+  const [activity, setActivity] = useState<Activity>(searchParams.activity ?? 'scuba')
   const [selectedPoint, setSelectedPoint] = useState<PointData | null>(null)
   const [isLoadingPoint, setIsLoadingPoint] = useState(false)
   const [pointError, setPointError] = useState<string | null>(null)
@@ -73,9 +104,16 @@ function MapPage() {
     return `${selectedLocation.lat.toFixed(4)}, ${selectedLocation.lon.toFixed(4)}`
   }, [selectedLocation])
 
+  // In-flight point request; a newer one aborts it so a slow stale response can't win
+  const pointRequest = useRef<AbortController | null>(null)
+
   // Fetch point data when map is clicked
   const handleMapClick = useCallback(
     async (lat: number, lon: number, display?: string) => {
+      pointRequest.current?.abort()
+      const controller = new AbortController()
+      pointRequest.current = controller
+
       setIsLoadingPoint(true)
       setPointError(null)
       setSelectedLocation({ lat, lon, display })
@@ -86,6 +124,9 @@ function MapPage() {
           lat,
           lon,
           datetime: selectedDateTime,
+          depth: depth ?? undefined,
+          activity: activity !== 'scuba' ? activity : undefined,
+          ...prefs,
         } as any,
       })
 
@@ -93,10 +134,10 @@ function MapPage() {
       const [date, timeWithSeconds] = selectedDateTime.split('T')
       const time = timeWithSeconds ? timeWithSeconds.substring(0, 5) : '12:00' // HH:mm
 
-      const url = `/api/sst/point?lat=${lat}&lon=${lon}&date=${date}&time=${time}&years=3&forecastDays=2`
+      const url = `/api/sst/point?lat=${lat}&lon=${lon}&date=${date}&time=${time}&years=3&forecastDays=2&hourly=true&units=${units}&rules=${ruleSetId}&activity=${activity}${depth !== null ? `&depth=${depth}` : ''}${prefsQuery ? `&${prefsQuery}` : ''}`
 
       try {
-        const response = await fetch(url)
+        const response = await fetch(url, { signal: controller.signal })
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}))
@@ -108,6 +149,7 @@ function MapPage() {
         setPointError(null)
         setIsDrawerOpen(true) // Auto-open drawer on success
       } catch (err) {
+        if (controller.signal.aborted) return
         console.error('Error fetching point data:', err)
         const errorMessage =
           err instanceof Error
@@ -116,10 +158,13 @@ function MapPage() {
         setPointError(errorMessage)
         setSelectedPoint(null)
       } finally {
-        setIsLoadingPoint(false)
+        if (pointRequest.current === controller) {
+          pointRequest.current = null
+          setIsLoadingPoint(false)
+        }
       }
     },
-    [selectedDateTime, navigate],
+    [selectedDateTime, units, ruleSetId, activity, depth, prefs, prefsQuery, navigate],
   )
 
   const handleSearchSelect = useCallback(
@@ -130,13 +175,26 @@ function MapPage() {
     [handleMapClick],
   )
 
+  // Set by the mount effect below, one render after the unit, rule and preference
+  // providers have read their stored values (their effects run in the same pass)
+  const [hydrated, setHydrated] = useState(false)
+
   // Load point from URL on mount
   useEffect(() => {
+    // Preferences in a shared link apply for this session only; the stored ones
+    // stay untouched unless the user saves these from the preferences panel
+    const urlPrefs = personalPrefsSchema.parse(searchParams)
+    if (Object.keys(urlPrefs).length > 0) {
+      applySharedPrefs(urlPrefs)
+    }
+
     if (searchParams.lat && searchParams.lon) {
-      // Set selectedLocation immediately so marker appears
+      // Set selectedLocation immediately so marker appears; the fetch waits for hydration
       setSelectedLocation({ lat: searchParams.lat, lon: searchParams.lon })
-      handleMapClick(searchParams.lat, searchParams.lon)
     }
+    setHydrated(true)
+
+    return () => pointRequest.current?.abort()
   }, []) // Only run once on mount
 
   // Memoize the handleDateTimeChange callback
@@ -144,20 +202,19 @@ function MapPage() {
     setSelectedDateTime(datetime)
   }, [])
 
-  // Refetch data when datetime changes (if we have a selected location)
-  // Using a ref to track if we should skip the initial mount
-  const isInitialMount = useRef(true)
+  // Fetch the URL's point once hydrated, then refetch when datetime, units, suit rules,
+  // activity, depth or preferences change (if we have a selected location)
   useEffect(() => {
-    // Skip on initial mount to avoid double-fetching
-    if (isInitialMount.current) {
-      isInitialMount.current = false
-      return
-    }
+    // Before hydration these are still the server-render defaults
+    if (!hydrated) return
 
     if (selectedLocation) {
       handleMapClick(selectedLocation.lat, selectedLocation.lon, selectedLocation.display)
     }
-  }, [selectedDateTime]) // Note: handleMapClick depends on selectedDateTime, so this will refetch
+  }, [hydrated, selectedDateTime, units, ruleSetId, activity, depth, prefsQuery]) // Note: handleMapClick depends on all of these, so this will refetch
+
+  // The picked time is interpreted at the dive site; label it with the site's zone once known
+  const timeZoneLabel = selectedPoint?.timezone?.abbreviation
 
   // Memoize the SearchBar element to prevent unnecessary recreations
   const searchBarElement = useMemo(() => (
@@ -166,8 +223,11 @@ function MapPage() {
       selectedDateTime={selectedDateTime}
       onDateTimeChange={handleDateTimeChange}
       displayText={displayText}
+      timeZoneLabel={timeZoneLabel}
+      activity={activity}
+      onActivityChange={setActivity}
     />
-  ), [handleSearchSelect, selectedDateTime, handleDateTimeChange, displayText])
+  ), [handleSearchSelect, selectedDateTime, handleDateTimeChange, displayText, timeZoneLabel, activity])
 
   // Set navbar content with SearchBar
   useEffect(() => {
@@ -206,6 +266,11 @@ function MapPage() {
             initialCenter={initialCenter}
             isLoading={isLoadingPoint}
             selectedLocation={selectedLocation}
+            resolvedLocation={
+              selectedPoint?.resolved && selectedPoint.resolved.distanceKm > 0
+                ? selectedPoint.resolved
+                : null
+            }
             isSelectionMode={isSelectionMode}
             onToggleSelectionMode={() => setIsSelectionMode(prev => !prev)}
           />
@@ -297,8 +362,22 @@ function MapPage() {
           selectedPoint && (
             <SidebarTable
               location={selectedPoint.location}
+              resolved={selectedPoint.resolved}
+              timezone={selectedPoint.timezone}
               rows={selectedPoint.rows}
               stats={selectedPoint.stats}
+              units={selectedPoint.units}
+              marineVariables={selectedPoint.marineVariables}
+              surface={selectedPoint.surface}
+              activity={selectedPoint.activity}
+              depth={selectedPoint.depth}
+              depthStats={selectedPoint.depthStats}
+              recommendation={selectedPoint.recommendation}
+              anomaly={selectedPoint.anomaly}
+              selectedDepth={depth}
+              onDepthChange={setDepth}
+              diurnal={selectedPoint.diurnal}
+              meta={selectedPoint.meta}
               open={isDrawerOpen}
               onOpenChange={setIsDrawerOpen}
               onClose={() => {